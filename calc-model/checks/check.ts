@@ -0,0 +1,491 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { arithmeticEvaluationCases } from './fixtures/arithmetic-evaluation';
+import { checkpointCases } from './fixtures/checkpoints';
+import { comparisonQueryCases } from './fixtures/comparison-queries';
+import { compoundQueryCases } from './fixtures/compound-queries';
+import { datasetFileCases } from './fixtures/dataset-files';
+import { splitCases } from './fixtures/dataset-splits';
+import { equationQueryCases } from './fixtures/equation-queries';
+import { financeQueryCases } from './fixtures/finance-queries';
+import { fineTuningCases } from './fixtures/fine-tuning';
+import { generatorCases } from './fixtures/generated-datasets';
+import { localeQueryCases } from './fixtures/locale-queries';
+import { numberNormalizationCases } from './fixtures/number-normalization';
+import { outputEncodingCases } from './fixtures/output-encoding';
+import { predictionStrategyCases } from './fixtures/prediction-strategies';
+import { traceCases } from './fixtures/prediction-traces';
+import { queryParsingCases } from './fixtures/query-parsing';
+import { registryCases, registryManifests } from './fixtures/registry-versions';
+import { sequenceModelCases } from './fixtures/sequence-models';
+import { ServerCase, serverRequestCases } from './fixtures/server-requests';
+import { tokenizerEncodingCases } from './fixtures/tokenizer-encoding';
+import { tuningCases } from './fixtures/tuning-trials';
+import { unitConversionCases } from './fixtures/unit-conversions';
+import { unsupportedQueryCases } from './fixtures/unsupported-queries';
+import { generateTrainingData } from '../src/data-generator';
+import { loadDataset } from '../src/dataset-loader';
+import { EquationSolver } from '../src/equation-solver';
+import { kFoldSplits, splitDataset } from '../src/evaluation';
+import { EvaluationError, parseArithmetic } from '../src/expression-evaluator';
+import { CalculatorModel } from '../src/calculator-model';
+import { ModelArchitecture } from '../src/calculator-network';
+import { hashRun, TrainingCheckpoint, writeCheckpoint } from '../src/checkpoint';
+import { FeedForwardNetwork } from '../src/feedforward-network';
+import { hashDataset, ModelRegistry } from '../src/model-registry';
+import { createOutputEncoding, DEFAULT_OUTPUT_ENCODING, LEGACY_OUTPUT_ENCODING, OutputEncodingConfig } from '../src/output-encoding';
+import { combinePrediction, PredictionResult, predictWith } from '../src/prediction';
+import { MathEvaluator, TextPreprocessor } from '../src/preprocessor';
+import { QueryValidator } from '../src/query-validator';
+import { createServer } from '../src/server';
+import { buildStandalone, loadStandalone } from '../src/standalone';
+import { createTokenizer, defaultTokenizerConfig } from '../src/tokenizer';
+import { trainingData } from '../src/training-data';
+import { tune } from '../src/tuning';
+
+const operandLimit = QueryValidator.operandLimit(trainingData);
+
+// A table of inputs and expected results, and the function under check
+interface CheckSuite<Expected> {
+  name: string;
+  cases: { input: string; expected: Expected }[];
+  actual: (input: string) => Expected | Promise<Expected>;
+}
+
+// Runs `check` in a fresh directory under the system temp dir, removed once
+// `check` (or the promise it returns) is done
+function inTemporaryDirectory<T>(check: (directory: string) => T): T {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'calc-check-'));
+  const remove = () => fs.rmSync(directory, { recursive: true, force: true });
+  let result: T;
+  try {
+    result = check(directory);
+  } catch (error) {
+    remove();
+    throw error;
+  }
+  if (result instanceof Promise) return result.finally(remove) as T;
+  remove();
+  return result;
+}
+
+// Runs `run` with console.log silenced, for checks that train
+function withoutLogs<T>(run: () => Promise<T>): Promise<T> {
+  const log = console.log;
+  console.log = () => undefined;
+  return run().finally(() => {
+    console.log = log;
+  });
+}
+
+// The legacy model.json, with the operand limit CalculatorModel.loadModel
+// gives it
+const legacyModelData = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'model.json'), 'utf8'));
+legacyModelData.operandLimit = operandLimit;
+const legacyNetwork = new FeedForwardNetwork();
+legacyNetwork.fromJSON(legacyModelData);
+
+// The same model behind the prediction server, loaded when the server suite
+// runs. The registry path is never created, so 'latest' falls back to
+// model.json.
+let legacyModel: CalculatorModel | null = null;
+function loadLegacyModel(): CalculatorModel {
+  if (!legacyModel) {
+    legacyModel = new CalculatorModel({ registryPath: path.join(os.tmpdir(), 'calc-check-no-registry') });
+    legacyModel.loadModel('latest');
+  }
+  return legacyModel;
+}
+
+// Sends one request to a server started for it, on a free port, and reads the
+// status and JSON body of the response
+function requestServer(server: http.Server, request: ServerCase['request']): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    server.listen(0, () => {
+      const { port } = server.address() as { port: number };
+      const outgoing = http.request({ port, method: request.method, path: request.path }, (response) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => {
+          server.close();
+          resolve({ status: response.statusCode ?? 0, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) });
+        });
+      });
+      // The server may close the connection before an oversized body is sent
+      outgoing.on('error', (error) => {
+        server.close();
+        reject(error);
+      });
+      outgoing.end(request.bodyBytes === undefined ? request.body : Buffer.alloc(request.bodyBytes, 'x'));
+    });
+  });
+}
+
+// The legacy model exported as a standalone module must answer the fixture
+// queries exactly as the brain.js network it came from. Exports bundle the
+// compiled modules, so they are read from dist.
+function standaloneSuite(): CheckSuite<PredictionResult> {
+  const predictor = loadStandalone(buildStandalone(legacyModelData, null, path.join(__dirname, '..', 'dist')));
+
+  return {
+    name: 'standalone export',
+    cases: [
+      ...queryParsingCases,
+      ...financeQueryCases,
+      ...unitConversionCases,
+      ...comparisonQueryCases,
+      ...equationQueryCases,
+      ...localeQueryCases,
+      ...unsupportedQueryCases,
+    ].map(({ input }) => ({
+      input,
+      expected: predictWith(legacyNetwork, input, {}, operandLimit),
+    })),
+    actual: (input) => predictor.predict(input),
+  };
+}
+
+const suites: CheckSuite<any>[] = [
+  {
+    name: 'number normalization',
+    cases: numberNormalizationCases,
+    actual: (input) => TextPreprocessor.normalize(input),
+  },
+  {
+    name: 'query parsing',
+    cases: queryParsingCases,
+    actual: (input) => TextPreprocessor.preprocess(input),
+  },
+  {
+    name: 'arithmetic evaluation',
+    cases: arithmeticEvaluationCases,
+    actual: (input) => {
+      try {
+        return MathEvaluator.evaluate(input);
+      } catch (error) {
+        if (error instanceof EvaluationError) return `${error.name}: ${error.message}`;
+        throw error;
+      }
+    },
+  },
+  {
+    name: 'compound queries',
+    cases: compoundQueryCases,
+    actual: (input) => {
+      const expression = TextPreprocessor.preprocess(input);
+      return { expression, value: MathEvaluator.tryEvaluate(expression) };
+    },
+  },
+  {
+    name: 'percentages and finance',
+    cases: financeQueryCases,
+    actual: (input) => {
+      const expression = TextPreprocessor.preprocess(input);
+      return { expression, value: MathEvaluator.tryEvaluate(expression) };
+    },
+  },
+  {
+    name: 'unit conversions',
+    cases: unitConversionCases,
+    actual: (input) => {
+      const expression = TextPreprocessor.preprocess(input);
+      return { expression, value: MathEvaluator.tryEvaluate(expression) };
+    },
+  },
+  {
+    name: 'comparisons',
+    cases: comparisonQueryCases,
+    actual: (input) => {
+      const { expression, value, answer } = predictWith(legacyNetwork, input, {}, operandLimit);
+      return { expression, value, answer };
+    },
+  },
+  {
+    name: 'equations',
+    cases: equationQueryCases,
+    actual: (input) => {
+      const { locale } = TextPreprocessor.localize(input);
+      const expression = TextPreprocessor.preprocess(input, locale);
+      try {
+        return { expression, solution: EquationSolver.solve(parseArithmetic(expression)) };
+      } catch (error) {
+        if (error instanceof EvaluationError) return { expression, solution: error.message };
+        throw error;
+      }
+    },
+  },
+  {
+    name: 'locale packs',
+    cases: localeQueryCases,
+    actual: (input) => {
+      const { locale, text } = TextPreprocessor.localize(input);
+      return { locale, expression: TextPreprocessor.preprocess(text) };
+    },
+  },
+  {
+    name: 'tokenizer encoding',
+    cases: tokenizerEncodingCases,
+    actual: (input) => {
+      const encode = (type: 'chars' | 'numeric') =>
+        createTokenizer(defaultTokenizerConfig(type))
+          .encode(input)
+          .map((value) => Math.round(value * 1000) / 1000);
+      return { chars: encode('chars'), numeric: encode('numeric') };
+    },
+  },
+  {
+    name: 'output encoding',
+    cases: outputEncodingCases,
+    actual: (input) => {
+      const roundTrip = (config: OutputEncodingConfig) => {
+        const encoding = createOutputEncoding(config);
+        return encoding.decode(encoding.encode(parseFloat(input)));
+      };
+      return { digits: roundTrip(DEFAULT_OUTPUT_ENCODING), scaled: roundTrip(LEGACY_OUTPUT_ENCODING) };
+    },
+  },
+  {
+    name: 'data generator',
+    cases: generatorCases,
+    actual: (input) => {
+      const { options } = generatorCases.find((candidate) => candidate.input === input)!;
+      const examples = generateTrainingData(options);
+      return {
+        count: examples.length,
+        distinct: new Set(examples.map((example) => example.input)).size,
+        evaluated: examples.filter(
+          (example) => MathEvaluator.tryEvaluate(TextPreprocessor.preprocess(example.input)) === example.output
+        ).length,
+        repeatable: JSON.stringify(generateTrainingData(options)) === JSON.stringify(examples),
+      };
+    },
+  },
+  {
+    name: 'dataset files',
+    cases: datasetFileCases,
+    actual: (input) =>
+      inTemporaryDirectory((directory) => {
+        const file = path.join(directory, 'data.csv');
+        fs.writeFileSync(file, input);
+        try {
+          return loadDataset(file).examples;
+        } catch (error) {
+          return error instanceof Error ? error.message.replace(file, 'data.csv') : String(error);
+        }
+      }),
+  },
+  {
+    name: 'dataset splits',
+    cases: splitCases,
+    actual: (input) => {
+      const { testRatio, folds } = splitCases.find((splitCase) => splitCase.input === input)!;
+      const examples = trainingData.slice(0, 10);
+      try {
+        const splits = folds !== undefined ? kFoldSplits(examples, folds, 1) : [splitDataset(examples, testRatio!, 1)];
+        return splits.map((split) => split.test.length);
+      } catch (error) {
+        return String(error);
+      }
+    },
+  },
+  {
+    name: 'model registry',
+    cases: registryCases,
+    actual: (input) =>
+      inTemporaryDirectory((directory) => {
+        registryManifests.forEach((manifest) => {
+          fs.mkdirSync(path.join(directory, manifest.id));
+          fs.writeFileSync(path.join(directory, manifest.id, 'manifest.json'), JSON.stringify(manifest));
+        });
+        const [version, architecture] = input.split(' ');
+        return new ModelRegistry(directory).resolve(version, architecture as ModelArchitecture | undefined)?.id ?? null;
+      }),
+  },
+  {
+    name: 'training checkpoints',
+    cases: checkpointCases,
+    actual: (input) =>
+      inTemporaryDirectory(async (directory) => {
+        const { checkpoint: overrides, interruptedConfig } = checkpointCases.find(
+          (checkpointCase) => checkpointCase.input === input
+        )!;
+        const examples = trainingData.slice(0, 20);
+        const config = { hiddenLayers: [4], iterations: 60 };
+        const checkpointPath = path.join(directory, 'checkpoint.json');
+
+        if (overrides) {
+          const interrupted = new FeedForwardNetwork({ ...config, ...interruptedConfig });
+          interrupted.train(examples, { iterations: 40, log: false, preview: false });
+          const weights = interrupted.toJSON();
+          const checkpoint: TrainingCheckpoint = {
+            architecture: 'feedforward',
+            runHash: hashRun(examples, interrupted.config),
+            iterations: 40,
+            trainingError: 0.123,
+            bestIteration: 40,
+            bestTrainingError: 0.123,
+            bestValidationError: 0,
+            checksWithoutImprovement: 0,
+            model: weights,
+            bestModel: weights,
+            ...overrides,
+          };
+          writeCheckpoint(checkpointPath, checkpoint);
+        }
+
+        const model = new CalculatorModel({ config, registryPath: path.join(directory, 'models') });
+        const manifest = await withoutLogs(() =>
+          model.train(examples, { log: false, checkEvery: 20, patience: 1, checkpointPath })
+        );
+        return {
+          trainedIterations: manifest?.trainedIterations,
+          fromCheckpoint: manifest?.finalError === 0.123,
+          checkpointRemoved: !fs.existsSync(checkpointPath),
+        };
+      }),
+  },
+  {
+    name: 'sequence models',
+    cases: sequenceModelCases,
+    actual: (input) =>
+      inTemporaryDirectory(async (directory) => {
+        const { architecture, config } = sequenceModelCases.find((sequenceCase) => sequenceCase.input === input)!;
+        const queries = ['2 plus 2', 'what is 3 times 4', '10 minus 7', "what's the weather"];
+        const trained = new CalculatorModel({
+          architecture,
+          config: { hiddenLayers: [5], iterations: 5, ...config },
+          registryPath: directory,
+        });
+        const manifest = await withoutLogs(() => trained.train(trainingData.slice(0, 5), { log: false }));
+        const loaded = new CalculatorModel({ architecture, registryPath: directory });
+        await withoutLogs(async () => loaded.loadModel('latest'));
+
+        const before = queries.map((query) => trained.predict(query));
+        const after = queries.map((query) => loaded.predict(query));
+        return {
+          architecture: manifest?.architecture,
+          activation: manifest?.activation,
+          sameAfterLoading: before.every((prediction, index) => Object.is(prediction.neural, after[index].neural)),
+        };
+      }),
+  },
+  {
+    name: 'fine-tuning',
+    cases: fineTuningCases,
+    actual: (input) =>
+      inTemporaryDirectory(async (directory) => {
+        const { correctionWeight } = fineTuningCases.find((fineTuningCase) => fineTuningCase.input === input)!;
+        const examples = trainingData.slice(0, 20);
+        const corrections = correctionWeight === undefined ? [] : examples.slice(0, 2);
+        const model = new CalculatorModel({ config: { hiddenLayers: [4], iterations: 20 }, registryPath: directory });
+        const manifest = await withoutLogs(() => model.train(examples, { log: false, corrections, correctionWeight }));
+        return {
+          datasetSize: manifest?.datasetSize,
+          datasetHashOfExamples: manifest?.datasetHash === hashDataset(examples),
+          correctionWeight: manifest?.correctionWeight ?? null,
+        };
+      }),
+  },
+  {
+    name: 'hyperparameter search',
+    cases: tuningCases,
+    actual: async (input) => {
+      const { architecture, candidates } = tuningCases.find((tuningCase) => tuningCase.input === input)!;
+      try {
+        const results = await withoutLogs(async () =>
+          tune(trainingData.slice(0, 20), { architecture, candidates, seed: 1, validationRatio: 0.2 })
+        );
+        return results.map((result) => result.config.activation).sort();
+      } catch (error) {
+        return String(error);
+      }
+    },
+  },
+  {
+    name: 'unsupported queries',
+    cases: unsupportedQueryCases,
+    actual: (input) => {
+      const { locale } = TextPreprocessor.localize(input);
+      return QueryValidator.validate(TextPreprocessor.stages(input, locale), operandLimit).map((issue) => issue.kind);
+    },
+  },
+  {
+    name: 'prediction strategy',
+    cases: predictionStrategyCases,
+    actual: (input) => {
+      const { architecture, network } = predictionStrategyCases.find((strategyCase) => strategyCase.input === input)!;
+      const { value, strategy } = combinePrediction(architecture, TextPreprocessor.stages(input), network);
+      return { value, strategy };
+    },
+  },
+  {
+    name: 'prediction traces',
+    cases: traceCases,
+    actual: (input) => {
+      const model = loadLegacyModel();
+      const trace = model.explain(input);
+      const { raw, ...stages } = trace.stages;
+      return {
+        stages,
+        tokens: trace.tokens.length,
+        sameAsPredict:
+          Object.is(trace.prediction.neural, trace.decoded) && isDeepStrictEqual(trace.prediction, model.predict(input)),
+      };
+    },
+  },
+  {
+    name: 'prediction server',
+    cases: serverRequestCases,
+    actual: async (input) => {
+      const { request } = serverRequestCases.find((serverCase) => serverCase.input === input)!;
+      const { status, body } = await requestServer(createServer(loadLegacyModel()), request);
+      return body.success ? { status, result: body.result } : { status, error: body.error };
+    },
+  },
+  standaloneSuite(),
+];
+
+// Runs one suite and returns the number of failed cases
+async function runSuite(suite: CheckSuite<any>): Promise<number> {
+  const failures: string[] = [];
+
+  for (const { input, expected } of suite.cases) {
+    try {
+      assert.deepStrictEqual(await suite.actual(input), expected);
+    } catch (error) {
+      const detail = error instanceof assert.AssertionError ? JSON.stringify(error.actual) : String(error);
+      failures.push(`  "${input}": expected ${JSON.stringify(expected)}, got ${detail}`);
+    }
+  }
+
+  const passed = suite.cases.length - failures.length;
+  console.log(`${failures.length ? '❌' : '✅'} ${suite.name}: ${passed}/${suite.cases.length}`);
+  failures.forEach((failure) => console.log(failure));
+  return failures.length;
+}
+
+async function main() {
+  console.log('🧪 AI Calculator - Checks');
+  console.log('=========================');
+
+  let failed = 0;
+  for (const suite of suites) {
+    failed += await runSuite(suite);
+  }
+  if (failed > 0) {
+    console.log(`\n❌ ${failed} case(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n✅ All checks passed');
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,98 @@
+// Expected MathEvaluator.evaluate() results: a number, or the error it throws
+// as "<ErrorClass>: <message>". Checked by `pnpm run check`.
+export interface EvaluationCase {
+  input: string;
+  expected: number | string;
+}
+
+export const arithmeticEvaluationCases: EvaluationCase[] = [
+  // Precedence, associativity and parentheses
+  { input: '2+2', expected: 4 },
+  { input: '(2+1)^2', expected: 9 },
+  { input: '2^3^2', expected: 512 },
+  { input: '4 ^ 0.5', expected: 2 },
+  { input: '2 * sqrt(9) + 1', expected: 7 },
+  { input: '10 / 4', expected: 2.5 },
+
+  // Decimals
+  { input: '1.5 * 4', expected: 6 },
+  { input: '.5 + .25', expected: 0.75 },
+  { input: '3.', expected: 3 },
+  { input: '0.1 + 0.2', expected: 0.3 },
+  { input: '1000 * (1 + 5%)^3 - 1000', expected: 157.625 },
+
+  // Unary minus binds looser than ^
+  { input: '-2^2', expected: -4 },
+  { input: '(-2)^2', expected: 4 },
+  { input: '2^-1', expected: 0.5 },
+  { input: '-(-3)', expected: 3 },
+  { input: '--3', expected: 3 },
+  { input: '+5', expected: 5 },
+  { input: '-3!', expected: -6 },
+
+  // Modulo and percent
+  { input: '10 % 3', expected: 1 },
+  { input: '10 mod 3', expected: 1 },
+  { input: '-7 % 3', expected: -1 },
+  { input: '50%', expected: 0.5 },
+  { input: '50% * 80', expected: 40 },
+  { input: '200 * 15%', expected: 30 },
+
+  // Factorial and square root
+  { input: '5!', expected: 120 },
+  { input: '0!', expected: 1 },
+  { input: '3!!', expected: 720 },
+  { input: 'sqrt(16)', expected: 4 },
+  { input: 'SQRT(9)', expected: 3 },
+  { input: 'sqrt(16)^2', expected: 16 },
+
+  // Comparisons are 1 when they hold and 0 when they do not; max/min pick a value
+  { input: '7 > 5', expected: 1 },
+  { input: '7 < 5', expected: 0 },
+  { input: '5 >= 5', expected: 1 },
+  { input: '5 <= 4', expected: 0 },
+  { input: '3 + 4 = 7', expected: 1 },
+  { input: '12 % 5 = 0', expected: 0 },
+  { input: '7 != 5', expected: 1 },
+  { input: '5! != 120', expected: 0 },
+  { input: '0.1 + 0.2 = 0.3', expected: 1 },
+  { input: 'max(3^2, 10)', expected: 10 },
+  { input: 'min(2^3, 9, 12)', expected: 8 },
+  { input: 'max(-1, -4) * 2', expected: -2 },
+
+  // An equation is worth the value of its unknown
+  { input: 'x + 3 = 10', expected: 7 },
+  { input: '2 * x = x + 5', expected: 5 },
+  { input: 'x + 1 = x + 2', expected: 'NoSolutionError: No value of x solves x + 1 = x + 2' },
+  { input: 'x = x', expected: 'InfiniteSolutionsError: Every value of x solves x = x' },
+  { input: 'x + 3', expected: 'EquationError: x + 3 is not an equation' },
+
+  // Math errors
+  { input: '10 / 0', expected: 'DivisionByZeroError: Division by zero' },
+  { input: '10 % 0', expected: 'DivisionByZeroError: Division by zero' },
+  { input: '0^-1', expected: 'DivisionByZeroError: Division by zero' },
+  { input: '0 / 0', expected: 'DivisionByZeroError: Division by zero' },
+  { input: 'sqrt(-4)', expected: 'MathDomainError: Square root of negative number -4' },
+  { input: '2.5!', expected: 'MathDomainError: Factorial needs a whole number from 0 to 170, got 2.5' },
+  { input: '(-1)!', expected: 'MathDomainError: Factorial needs a whole number from 0 to 170, got -1' },
+  { input: '171!', expected: 'MathDomainError: Factorial needs a whole number from 0 to 170, got 171' },
+  { input: '(-8)^(1/3)', expected: 'MathDomainError: -8 to the power of 0.333333333333 is not a real number' },
+  { input: '(-4)^0.5', expected: 'MathDomainError: -4 to the power of 0.5 is not a real number' },
+  { input: '9^9^9', expected: 'OverflowError: Result is too large to represent' },
+  { input: '10^400 - 10^400', expected: 'OverflowError: Result is too large to represent' },
+  { input: '9^9^9 > 5', expected: 'OverflowError: Result is too large to represent' },
+
+  // Syntax errors report the 0-based position of the offending token
+  { input: '2 +', expected: 'ExpressionSyntaxError: Unexpected end of expression at position 3' },
+  { input: '(2 + 3', expected: 'ExpressionSyntaxError: Missing ")" at position 6' },
+  { input: '2 + 3)', expected: 'ExpressionSyntaxError: Unexpected ")" at position 5' },
+  { input: '2 3', expected: 'ExpressionSyntaxError: Unexpected "3" at position 2' },
+  { input: '*5', expected: 'ExpressionSyntaxError: Unexpected "*" at position 0' },
+  { input: 'sqrt 16', expected: 'ExpressionSyntaxError: Expected "(" after sqrt at position 5' },
+  { input: 'cos(0)', expected: 'ExpressionSyntaxError: Unknown name "cos" at position 0' },
+  { input: '2 # 3', expected: 'ExpressionSyntaxError: Unexpected character "#" at position 2' },
+  { input: '1e3', expected: 'ExpressionSyntaxError: Unknown name "e" at position 1' },
+  { input: '1 < 2 < 3', expected: 'ExpressionSyntaxError: Unexpected "<" at position 6' },
+  { input: 'max 3', expected: 'ExpressionSyntaxError: Expected "(" after max at position 4' },
+  { input: 'min(3 4)', expected: 'ExpressionSyntaxError: Missing ")" at position 6' },
+];
@@ -0,0 +1,57 @@
+import { NetworkConfig } from '../../src/calculator-network';
+import { TrainingCheckpoint } from '../../src/checkpoint';
+
+// Checkpoints left by an interrupted run and what training with them does,
+// checked by `pnpm run check`. Each run asks for 60 iterations in rounds of
+// 20 with a patience of 1; `checkpoint` overrides fields of one written after
+// 40 iterations of the same run, whose best training error was 0.123, or of
+// a run with `interruptedConfig` in place of the network's config.
+// `fromCheckpoint` is true when the saved model kept the checkpoint's best
+// weights, and the checkpoint must be gone once training finishes.
+export interface CheckpointCase {
+  input: string;
+  checkpoint?: Partial<TrainingCheckpoint>;
+  interruptedConfig?: Partial<NetworkConfig>;
+  expected: { trainedIterations: number; fromCheckpoint: boolean; checkpointRemoved: boolean };
+}
+
+export const checkpointCases: CheckpointCase[] = [
+  {
+    input: 'no checkpoint',
+    expected: { trainedIterations: 60, fromCheckpoint: false, checkpointRemoved: true },
+  },
+  {
+    // One more round, which cannot beat the saved best, so its weights stay
+    input: 'an interrupted run',
+    checkpoint: {},
+    expected: { trainedIterations: 60, fromCheckpoint: true, checkpointRemoved: true },
+  },
+  {
+    input: 'a run out of patience',
+    checkpoint: { checksWithoutImprovement: 1 },
+    expected: { trainedIterations: 40, fromCheckpoint: true, checkpointRemoved: true },
+  },
+  {
+    input: 'a checkpoint for other data',
+    checkpoint: { runHash: '000000000000' },
+    expected: { trainedIterations: 60, fromCheckpoint: false, checkpointRemoved: true },
+  },
+  {
+    input: 'a checkpoint for other hidden layers',
+    checkpoint: {},
+    interruptedConfig: { hiddenLayers: [5] },
+    expected: { trainedIterations: 60, fromCheckpoint: false, checkpointRemoved: true },
+  },
+  {
+    // The iterations asked for are not part of the run's identity
+    input: 'a checkpoint asking for fewer iterations',
+    checkpoint: {},
+    interruptedConfig: { iterations: 40 },
+    expected: { trainedIterations: 60, fromCheckpoint: true, checkpointRemoved: true },
+  },
+  {
+    input: 'a checkpoint for another architecture',
+    checkpoint: { architecture: 'intent' },
+    expected: { trainedIterations: 60, fromCheckpoint: false, checkpointRemoved: true },
+  },
+];
@@ -0,0 +1,72 @@
+import { PredictionAnswer } from '../../src/prediction';
+
+// Expected canonical expression, numeric value and answer for yes/no and
+// pick-one questions, checked by `pnpm run check`. A true comparison is worth
+// 1 and a false one 0; a choice is worth the option picked.
+export interface ComparisonCase {
+  input: string;
+  expected: { expression: string; value: number; answer: PredictionAnswer };
+}
+
+const yes: PredictionAnswer = { type: 'boolean', value: true };
+const no: PredictionAnswer = { type: 'boolean', value: false };
+
+export const comparisonQueryCases: ComparisonCase[] = [
+  // Greater and less
+  { input: 'is 7 greater than 5', expected: { expression: '7 > 5', value: 1, answer: yes } },
+  { input: 'is seven less than five', expected: { expression: '7 < 5', value: 0, answer: no } },
+  { input: 'is 9 bigger than 12', expected: { expression: '9 > 12', value: 0, answer: no } },
+  { input: 'is 3 squared more than 10', expected: { expression: '3^2 > 10', value: 0, answer: no } },
+  { input: 'is the sum of 3 and 4 greater than 6', expected: { expression: '3 + 4 > 6', value: 1, answer: yes } },
+  { input: '8 is smaller than 2 times 5', expected: { expression: '8 < 2 * 5', value: 1, answer: yes } },
+  { input: 'is 10 at least 10', expected: { expression: '10 >= 10', value: 1, answer: yes } },
+  { input: 'is 6 less than or equal to 5', expected: { expression: '6 <= 5', value: 0, answer: no } },
+  { input: 'is one half less than a third', expected: { expression: '1 / 2 < 1 / 3', value: 0, answer: no } },
+
+  // Equality
+  { input: 'does 3 plus 4 equal 7', expected: { expression: '3 + 4 = 7', value: 1, answer: yes } },
+  { input: 'is 6 times 3 equal to 20', expected: { expression: '6 * 3 = 20', value: 0, answer: no } },
+  { input: '3 plus 4 is 7', expected: { expression: '3 + 4 = 7', value: 1, answer: yes } },
+  { input: 'is 2 cubed the same as 8', expected: { expression: '2^3 = 8', value: 1, answer: yes } },
+  { input: 'is 5 not equal to 5', expected: { expression: '5 != 5', value: 0, answer: no } },
+  { input: 'is 0.1 plus 0.2 equal to 0.3', expected: { expression: '0.1 + 0.2 = 0.3', value: 1, answer: yes } },
+
+  // Symbols
+  { input: '7 >= 5', expected: { expression: '7 >= 5', value: 1, answer: yes } },
+  { input: 'is 4 != 4', expected: { expression: '4 != 4', value: 0, answer: no } },
+  { input: 'is 5 ≥ 3', expected: { expression: '5 >= 3', value: 1, answer: yes } },
+
+  // Divisibility and parity
+  { input: 'is 12 divisible by 4', expected: { expression: '12 % 4 = 0', value: 1, answer: yes } },
+  { input: 'is 12 divisible by 5', expected: { expression: '12 % 5 = 0', value: 0, answer: no } },
+  { input: 'is 15 a multiple of 3', expected: { expression: '15 % 3 = 0', value: 1, answer: yes } },
+  { input: 'is 4 a factor of 18', expected: { expression: '18 % 4 = 0', value: 0, answer: no } },
+  { input: 'is 7 even', expected: { expression: '7 % 2 = 0', value: 0, answer: no } },
+  { input: 'is 7 odd', expected: { expression: '7 % 2 != 0', value: 1, answer: yes } },
+
+  // Picking one of several values
+  {
+    input: 'which is bigger, 3 squared or 10',
+    expected: { expression: 'max(3^2, 10)', value: 10, answer: { type: 'choice', value: 10, option: '10', options: ['3^2', '10'] } },
+  },
+  {
+    input: 'which is smaller, 2 cubed or 9',
+    expected: { expression: 'min(2^3, 9)', value: 8, answer: { type: 'choice', value: 8, option: '2^3', options: ['2^3', '9'] } },
+  },
+  {
+    input: 'what is larger, 5 times 4 or 3 times 7',
+    expected: {
+      expression: 'max(5 * 4, 3 * 7)',
+      value: 21,
+      answer: { type: 'choice', value: 21, option: '3 * 7', options: ['5 * 4', '3 * 7'] },
+    },
+  },
+  {
+    input: 'the larger of 4 and 6',
+    expected: { expression: 'max(4, 6)', value: 6, answer: { type: 'choice', value: 6, option: '6', options: ['4', '6'] } },
+  },
+  {
+    input: 'which is the smallest, 5, 2 or 9',
+    expected: { expression: 'min(5, 2, 9)', value: 2, answer: { type: 'choice', value: 2, option: '2', options: ['5', '2', '9'] } },
+  },
+];
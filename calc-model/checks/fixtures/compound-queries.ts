@@ -0,0 +1,54 @@
+// Expected canonical expression and value for multi-step, nested and
+// parenthesized queries, checked by `pnpm run check`
+export interface CompoundCase {
+  input: string;
+  expected: { expression: string; value: number };
+}
+
+export const compoundQueryCases: CompoundCase[] = [
+  // Steps joined by "then" apply to the result so far
+  { input: 'add 3 to 5 then multiply by 2', expected: { expression: '(3 + 5) * 2', value: 16 } },
+  { input: 'add 3 to 5 and then multiply by 2', expected: { expression: '(3 + 5) * 2', value: 16 } },
+  { input: 'add 3 to 5, then multiply the result by 2', expected: { expression: '(3 + 5) * 2', value: 16 } },
+  { input: 'take 4 from 10 then divide by 3', expected: { expression: '(10 - 4) / 3', value: 2 } },
+  { input: 'multiply 6 by 7 then subtract 2', expected: { expression: '6 * 7 - 2', value: 40 } },
+  { input: 'raise 2 to 3 then subtract 1', expected: { expression: '2^3 - 1', value: 7 } },
+  { input: '2 plus 3 then times 4', expected: { expression: '(2 + 3) * 4', value: 20 } },
+  { input: '5 times 4 then minus 2', expected: { expression: '5 * 4 - 2', value: 18 } },
+  { input: 'what is 8 divided by 2 then plus 6', expected: { expression: '8 / 2 + 6', value: 10 } },
+  { input: 'add 10 and 5 then halve it', expected: { expression: '(10 + 5) / 2', value: 7.5 } },
+  { input: 'subtract 1 from 9 then square it', expected: { expression: '(9 - 1)^2', value: 64 } },
+  { input: '3 plus 4 then square the result', expected: { expression: '(3 + 4)^2', value: 49 } },
+  { input: 'two plus two then double it then add one', expected: { expression: '(2 + 2) * 2 + 1', value: 9 } },
+  { input: '10 minus 4 then add 4 to it', expected: { expression: '10 - 4 + 4', value: 10 } },
+  { input: '10 then subtract 2 from it', expected: { expression: '10 - 2', value: 8 } },
+  { input: '2 then raise it to the power of 3', expected: { expression: '2^3', value: 8 } },
+
+  // Mixed numbers and fractions of a number are a single operand
+  { input: 'two and a half times 2', expected: { expression: '(2 + 1 / 2) * 2', value: 5 } },
+  { input: '10 minus one and a half', expected: { expression: '10 - (1 + 1 / 2)', value: 8.5 } },
+  { input: 'two and a half squared', expected: { expression: '(2 + 1 / 2)^2', value: 6.25 } },
+  { input: '10 divided by half of 4', expected: { expression: '10 / (1 / 2 * 4)', value: 5 } },
+
+  // "square of" and "cube of" take a single operand
+  { input: 'the square of 3 plus 4', expected: { expression: '3^2 + 4', value: 13 } },
+  { input: '3 plus the square of 4', expected: { expression: '3 + 4^2', value: 19 } },
+  { input: 'square of 5 minus 5', expected: { expression: '5^2 - 5', value: 20 } },
+  { input: 'what is the square of 6', expected: { expression: '6^2', value: 36 } },
+  { input: 'the cube of 2 times 5', expected: { expression: '2^3 * 5', value: 40 } },
+  { input: 'square 4', expected: { expression: '4^2', value: 16 } },
+  { input: 'square of (1 + 2)', expected: { expression: '(1 + 2)^2', value: 9 } },
+
+  // Parentheses and precedence
+  { input: '(2 + 3) * 4', expected: { expression: '(2 + 3) * 4', value: 20 } },
+  { input: '2 * (3 + 4)', expected: { expression: '2 * (3 + 4)', value: 14 } },
+  { input: '((1 + 2) * 3) ^ 2', expected: { expression: '((1 + 2) * 3)^2', value: 81 } },
+  { input: '(10 - 2) / (1 + 3)', expected: { expression: '(10 - 2) / (1 + 3)', value: 2 } },
+  { input: '2 + 3 * 4 - 5', expected: { expression: '2 + 3 * 4 - 5', value: 9 } },
+  { input: '2 * 3 ^ 2', expected: { expression: '2 * 3^2', value: 18 } },
+  { input: '(2 * 3) ^ 2', expected: { expression: '(2 * 3)^2', value: 36 } },
+  { input: '8 / 4 / 2', expected: { expression: '8 / 4 / 2', value: 1 } },
+  { input: '2 - (3 - 4)', expected: { expression: '2 - (3 - 4)', value: 3 } },
+  { input: 'minus (2 + 3)', expected: { expression: '-(2 + 3)', value: -5 } },
+  { input: 'what is (4 plus 5) times 2', expected: { expression: '(4 + 5) * 2', value: 18 } },
+];
@@ -0,0 +1,40 @@
+import { TrainingExample } from '../../src/preprocessor';
+
+// CSV dataset files and the examples `loadDataset` reads from them, checked
+// by `pnpm run check`. A string is the error a bad file raises; the file is
+// called data.csv.
+export interface DatasetFileCase {
+  input: string;
+  expected: TrainingExample[] | string;
+}
+
+export const datasetFileCases: DatasetFileCase[] = [
+  {
+    input: 'input,output\n2+2,4\nwhat is 3 times 5,15',
+    expected: [
+      { input: '2+2', output: 4 },
+      { input: 'what is 3 times 5', output: 15 },
+    ],
+  },
+  // Quoted fields keep their commas and "" escapes
+  {
+    input: 'input,output\n"add 3, then double it",6\n"what is ""7"" minus 2",5',
+    expected: [
+      { input: 'add 3, then double it', output: 6 },
+      { input: 'what is "7" minus 2', output: 5 },
+    ],
+  },
+  // Columns are found by name; extra ones, blank lines and CRLF are fine
+  {
+    input: 'id,Output,Input\r\n1, 9 ,3 squared\r\n\r\n2,-2.5,  5 divided by negative 2  \r\n',
+    expected: [
+      { input: '3 squared', output: 9 },
+      { input: '5 divided by negative 2', output: -2.5 },
+    ],
+  },
+  { input: 'input,output\n2+2,4\nfive plus,abc', expected: 'data.csv:3: "output" must be a number, got "abc"' },
+  { input: 'input,output\n2+2,', expected: 'data.csv:2: "output" must be a number, got ""' },
+  { input: 'input,output\n,4', expected: 'data.csv:2: missing "input"' },
+  { input: 'input\n2+2', expected: 'data.csv:1: CSV header must contain "input" and "output" columns' },
+  { input: 'question,answer\n2+2,4', expected: 'data.csv:1: CSV header must contain "input" and "output" columns' },
+];
@@ -0,0 +1,24 @@
+// How splitDataset and kFoldSplits divide 10 examples, checked by `pnpm run
+// check`: the size of each held-out part, or the error for a ratio or fold
+// count that cannot split them
+export interface SplitCase {
+  input: string;
+  testRatio?: number;
+  folds?: number;
+  expected: number[] | string;
+}
+
+export const splitCases: SplitCase[] = [
+  { input: 'test ratio 0.2', testRatio: 0.2, expected: [2] },
+  { input: 'test ratio 0.01', testRatio: 0.01, expected: [1] },
+  { input: 'test ratio 0', testRatio: 0, expected: 'Error: A held-out ratio must be greater than 0 and less than 1, got 0' },
+  { input: 'test ratio 1', testRatio: 1, expected: 'Error: A held-out ratio must be greater than 0 and less than 1, got 1' },
+  { input: 'test ratio -0.2', testRatio: -0.2, expected: 'Error: A held-out ratio must be greater than 0 and less than 1, got -0.2' },
+  { input: 'test ratio 0.99', testRatio: 0.99, expected: 'Error: A held-out ratio of 0.99 leaves none of the 10 examples to train on' },
+  { input: '3 folds', folds: 3, expected: [4, 3, 3] },
+  { input: '10 folds', folds: 10, expected: [1, 1, 1, 1, 1, 1, 1, 1, 1, 1] },
+  { input: '1 fold', folds: 1, expected: 'Error: Cross validation needs a whole number of folds from 2 to 10, got 1' },
+  { input: '0 folds', folds: 0, expected: 'Error: Cross validation needs a whole number of folds from 2 to 10, got 0' },
+  { input: '2.5 folds', folds: 2.5, expected: 'Error: Cross validation needs a whole number of folds from 2 to 10, got 2.5' },
+  { input: '11 folds', folds: 11, expected: 'Error: Cross validation needs a whole number of folds from 2 to 10, got 11' },
+];
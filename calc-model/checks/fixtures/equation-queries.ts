@@ -0,0 +1,58 @@
+import { EquationSolution } from '../../src/equation-solver';
+
+// Expected canonical equation and solution for equations written in words or
+// symbols, checked by `pnpm run check`. A string is the message of the
+// EquationError raised for equations the solver does not handle.
+export interface EquationCase {
+  input: string;
+  expected: { expression: string; solution: EquationSolution | string };
+}
+
+const x = (value: number): EquationSolution => ({ variable: 'x', solutions: 'one', value });
+
+export const equationQueryCases: EquationCase[] = [
+  // Symbols
+  { input: 'x + 3 = 10', expected: { expression: 'x + 3 = 10', solution: x(7) } },
+  { input: '2x + 3 = 11', expected: { expression: '2 * x + 3 = 11', solution: x(4) } },
+  { input: '3 = 10 - y', expected: { expression: '3 = 10 - y', solution: { variable: 'y', solutions: 'one', value: 7 } } },
+  { input: '5x - 2 = 3x + 6', expected: { expression: '5 * x - 2 = 3 * x + 6', solution: x(4) } },
+  { input: '(x + 1) * 3 = 12', expected: { expression: '(x + 1) * 3 = 12', solution: x(3) } },
+  { input: 'x / 4 = 2.5', expected: { expression: 'x / 4 = 2.5', solution: x(10) } },
+  { input: '3x = 1', expected: { expression: '3 * x = 1', solution: x(0.333333333333) } },
+  { input: 'y + 4 = 10', expected: { expression: 'y + 4 = 10', solution: { variable: 'y', solutions: 'one', value: 6 } } },
+  { input: 'what is y if y + 2 = 5', expected: { expression: 'y + 2 = 5', solution: { variable: 'y', solutions: 'one', value: 3 } } },
+
+  // Words
+  { input: 'what number times 4 is 20', expected: { expression: 'x * 4 = 20', solution: x(5) } },
+  { input: 'what number plus 3 equals 10', expected: { expression: 'x + 3 = 10', solution: x(7) } },
+  { input: '5 less than a number is 2', expected: { expression: 'x - 5 = 2', solution: x(7) } },
+  { input: 'three more than a number equals ten', expected: { expression: 'x + 3 = 10', solution: x(7) } },
+  { input: '10 is 4 more than a number', expected: { expression: '10 = x + 4', solution: x(6) } },
+  { input: 'twice a number plus 3 is 11', expected: { expression: '2 * x + 3 = 11', solution: x(4) } },
+  { input: 'a number divided by 4 is 5', expected: { expression: 'x / 4 = 5', solution: x(20) } },
+  { input: 'half of a number is 6', expected: { expression: '1 / 2 * x = 6', solution: x(12) } },
+  { input: 'the sum of a number and 4 is 9', expected: { expression: 'x + 4 = 9', solution: x(5) } },
+  { input: 'what number minus 8 is negative 3', expected: { expression: 'x - 8 = -3', solution: x(5) } },
+  { input: 'x% of 200 is 50', expected: { expression: 'x% * 200 = 50', solution: x(25) } },
+
+  // No solution, or every value solves it
+  { input: 'x + 1 = x + 2', expected: { expression: 'x + 1 = x + 2', solution: { variable: 'x', solutions: 'none', value: null } } },
+  {
+    input: 'a number plus 1 is the number plus 2',
+    expected: { expression: 'x + 1 = x + 2', solution: { variable: 'x', solutions: 'none', value: null } },
+  },
+  { input: '2x = x + x', expected: { expression: '2 * x = x + x', solution: { variable: 'x', solutions: 'infinite', value: null } } },
+  {
+    input: '0.1x + 0.2x = 0.3x',
+    expected: { expression: '0.1 * x + 0.2 * x = 0.3 * x', solution: { variable: 'x', solutions: 'infinite', value: null } },
+  },
+
+  // Not linear equations in one unknown
+  { input: 'x * x = 4', expected: { expression: 'x * x = 4', solution: 'x * x is not linear in x' } },
+  { input: 'what number squared is 9', expected: { expression: 'x^2 = 9', solution: 'x^2 is not linear in x' } },
+  { input: '12 / x = 3', expected: { expression: '12 / x = 3', solution: '12 / x is not linear in x' } },
+  { input: 'x + y = 3', expected: { expression: 'x + y = 3', solution: 'Equations need exactly one unknown, got x, y' } },
+  { input: 'x + 3', expected: { expression: 'x + 3', solution: 'x + 3 is not an equation' } },
+  { input: 'a + 2 = 5', expected: { expression: 'a + 2 = 5', solution: 'Unknown name "a" at position 0' } },
+  { input: 'x > 3', expected: { expression: 'x > 3', solution: 'Only equations can be solved, not ">" comparisons' } },
+];
@@ -0,0 +1,51 @@
+// Expected canonical expression and value for percentage and everyday
+// finance queries, checked by `pnpm run check`
+export interface FinanceCase {
+  input: string;
+  expected: { expression: string; value: number };
+}
+
+export const financeQueryCases: FinanceCase[] = [
+  // Percent of an amount
+  { input: '15% of 80', expected: { expression: '15% * 80', value: 12 } },
+  { input: 'what is 15 percent of 80', expected: { expression: '15% * 80', value: 12 } },
+  { input: 'what is fifty percent of two hundred', expected: { expression: '50% * 200', value: 100 } },
+  { input: '17% of 30', expected: { expression: '17% * 30', value: 5.1 } },
+  { input: '10% of 20 plus 3', expected: { expression: '10% * 20 + 3', value: 5 } },
+
+  // Discounts and tips
+  { input: 'what is 20 percent off 50', expected: { expression: '50 - 20% * 50', value: 40 } },
+  { input: '30% discount on 90', expected: { expression: '90 - 30% * 90', value: 63 } },
+  { input: 'discount 30% on 90', expected: { expression: '90 - 30% * 90', value: 63 } },
+  { input: 'tip 18% on 42', expected: { expression: '18% * 42', value: 7.56 } },
+  { input: '18% tip on 42', expected: { expression: '18% * 42', value: 7.56 } },
+  { input: 'tip 15 percent for 60', expected: { expression: '15% * 60', value: 9 } },
+
+  // Increases and decreases by a percentage are of the amount changed
+  { input: 'increase 200 by 10%', expected: { expression: '200 + 10% * 200', value: 220 } },
+  { input: '200 increased by 10%', expected: { expression: '200 + 10% * 200', value: 220 } },
+  { input: 'decrease 80 by 25%', expected: { expression: '80 - 25% * 80', value: 60 } },
+  { input: 'reduce 50 by 10 percent', expected: { expression: '50 - 10% * 50', value: 45 } },
+  { input: 'increase 200 by 10', expected: { expression: '200 + 10', value: 210 } },
+  { input: '200 + 10%', expected: { expression: '200 + 10% * 200', value: 220 } },
+  { input: '200 - 10%', expected: { expression: '200 - 10% * 200', value: 180 } },
+  { input: '50 plus 10 percent', expected: { expression: '50 + 10% * 50', value: 55 } },
+  { input: '80 minus 25%', expected: { expression: '80 - 25% * 80', value: 60 } },
+  { input: '10% + 5%', expected: { expression: '10% + 5%', value: 0.15 } },
+
+  // Percent change and percentages of a whole
+  { input: 'percent change from 50 to 75', expected: { expression: '(75 - 50) / 50 * 100', value: 50 } },
+  { input: 'percentage change from 80 to 60', expected: { expression: '(60 - 80) / 80 * 100', value: -25 } },
+  { input: 'percentage decrease from 80 to 60', expected: { expression: '(80 - 60) / 80 * 100', value: 25 } },
+  { input: 'what percent is 20 of 80', expected: { expression: '20 / 80 * 100', value: 25 } },
+  { input: 'what percentage of 80 is 20', expected: { expression: '20 / 80 * 100', value: 25 } },
+
+  // Yearly interest earned, not the final balance
+  { input: 'simple interest on 1000 at 5% for 3 years', expected: { expression: '1000 * 5% * 3', value: 150 } },
+  { input: 'interest on 500 at 4 percent over 2 years', expected: { expression: '500 * 4% * 2', value: 40 } },
+  {
+    input: 'compound interest on 1000 at 5% for 3 years',
+    expected: { expression: '1000 * (1 + 5%)^3 - 1000', value: 157.625 },
+  },
+  { input: 'compound interest on 1000 at 5% for 1 year', expected: { expression: '1000 * (1 + 5%)^1 - 1000', value: 50 } },
+];
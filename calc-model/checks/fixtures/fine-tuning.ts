@@ -0,0 +1,26 @@
+// Manifests of models fine-tuned on corrections, checked by `pnpm run check`.
+// Each run trains on the same 20 examples, the first two of which are
+// corrections when a `correctionWeight` is given. The manifest describes
+// those 20 rows however many times the corrections were trained on.
+export interface FineTuningCase {
+  input: string;
+  correctionWeight?: number;
+  expected: { datasetSize: number; datasetHashOfExamples: boolean; correctionWeight: number | null };
+}
+
+export const fineTuningCases: FineTuningCase[] = [
+  {
+    input: 'no corrections',
+    expected: { datasetSize: 20, datasetHashOfExamples: true, correctionWeight: null },
+  },
+  {
+    input: 'corrections trained on once',
+    correctionWeight: 1,
+    expected: { datasetSize: 20, datasetHashOfExamples: true, correctionWeight: 1 },
+  },
+  {
+    input: 'corrections trained on five times',
+    correctionWeight: 5,
+    expected: { datasetSize: 20, datasetHashOfExamples: true, correctionWeight: 5 },
+  },
+];
@@ -0,0 +1,42 @@
+import { GeneratorOptions } from '../../src/data-generator';
+
+// Summaries of generated datasets, checked by `pnpm run check`: how many
+// examples came out, how many inputs are distinct, how many outputs the
+// preprocessor and evaluator agree with, and whether the same seed gives the
+// same rows again
+export interface GeneratorCase {
+  input: string;
+  options: GeneratorOptions;
+  expected: { count: number; distinct: number; evaluated: number; repeatable: boolean };
+}
+
+export const generatorCases: GeneratorCase[] = [
+  {
+    input: 'every operation',
+    options: { seed: 42, count: 200 },
+    expected: { count: 200, distinct: 200, evaluated: 200, repeatable: true },
+  },
+  {
+    input: 'another seed',
+    options: { seed: 7, count: 200 },
+    expected: { count: 200, distinct: 200, evaluated: 200, repeatable: true },
+  },
+  {
+    // Every dividend is a multiple of the divisor
+    input: 'exact division',
+    options: { seed: 1, count: 50, operations: ['divide'] },
+    expected: { count: 50, distinct: 50, evaluated: 50, repeatable: true },
+  },
+  {
+    // Only four distinct inputs exist, so generation stops early
+    input: 'exhausted ranges',
+    options: {
+      seed: 3,
+      count: 10,
+      operations: ['add'],
+      ranges: { add: { a: { min: 0, max: 1 }, b: { min: 0, max: 1 } } },
+      templates: { add: ['{a} plus {b}'] },
+    },
+    expected: { count: 4, distinct: 4, evaluated: 4, repeatable: true },
+  },
+];
@@ -0,0 +1,43 @@
+// Detected locale and canonical expression for queries in each locale pack,
+// checked by `pnpm run check`
+export interface LocaleCase {
+  input: string;
+  expected: { locale: string; expression: string };
+}
+
+export const localeQueryCases: LocaleCase[] = [
+  // English stays English, even with words another pack also uses
+  { input: 'what is 8 times 9', expected: { locale: 'en', expression: '8 * 9' } },
+  { input: 'what do I get if I add 3 and 4', expected: { locale: 'en', expression: '3 + 4' } },
+  { input: 'five plus three', expected: { locale: 'en', expression: '5 + 3' } },
+
+  // Spanish: accents are optional and number words compose
+  { input: '¿Cuánto es cinco más tres?', expected: { locale: 'es', expression: '5 + 3' } },
+  { input: 'cuanto es 5 mas 3', expected: { locale: 'es', expression: '5 + 3' } },
+  { input: 'treinta y cinco menos doce', expected: { locale: 'es', expression: '35 - 12' } },
+  { input: 'doscientos cincuenta y seis entre ocho', expected: { locale: 'es', expression: '256 / 8' } },
+  { input: 'mil doscientos más cien', expected: { locale: 'es', expression: '1200 + 100' } },
+  { input: 'tres punto cinco por dos', expected: { locale: 'es', expression: '3.5 * 2' } },
+  { input: 'diez dividido entre dos', expected: { locale: 'es', expression: '10 / 2' } },
+  { input: 'dos elevado a tres', expected: { locale: 'es', expression: '2^3' } },
+  { input: 'cinco al cuadrado', expected: { locale: 'es', expression: '5^2' } },
+  { input: 'la raíz cuadrada de 16', expected: { locale: 'es', expression: 'sqrt(16)' } },
+  { input: 'suma 3 y 5', expected: { locale: 'es', expression: '3 + 5' } },
+  { input: 'resta cuatro de diez', expected: { locale: 'es', expression: '10 - 4' } },
+  { input: 'multiplica 6 por 7', expected: { locale: 'es', expression: '6 * 7' } },
+  { input: 'divide 10 entre 2', expected: { locale: 'es', expression: '10 / 2' } },
+  { input: 'el doble de 5', expected: { locale: 'es', expression: '2 * 5' } },
+  { input: 'suma 3 a 5 y luego multiplica por 2', expected: { locale: 'es', expression: '(3 + 5) * 2' } },
+
+  // Romanized Hindi, verb last
+  { input: 'paanch guna teen kitna hai', expected: { locale: 'hi', expression: '5 * 3' } },
+  { input: 'bees jama tees kya hoga', expected: { locale: 'hi', expression: '20 + 30' } },
+  { input: 'paanch aur teen jodo', expected: { locale: 'hi', expression: '5 + 3' } },
+  { input: 'das mein se chaar ghatao', expected: { locale: 'hi', expression: '10 - 4' } },
+  { input: 'paanch aur teen ka guna', expected: { locale: 'hi', expression: '5 * 3' } },
+  { input: 'das ko do se bhaag do', expected: { locale: 'hi', expression: '10 / 2' } },
+  { input: 'paanch ka varg', expected: { locale: 'hi', expression: '5^2' } },
+  { input: 'solah ka vargmool', expected: { locale: 'hi', expression: 'sqrt(16)' } },
+  { input: 'do sau plus pachas', expected: { locale: 'hi', expression: '200 + 50' } },
+  { input: 'do lakh', expected: { locale: 'hi', expression: '200000' } },
+];
@@ -0,0 +1,138 @@
+// Expected TextPreprocessor.normalize() output for number phrases, checked
+// by `pnpm run check`
+export interface NormalizationCase {
+  input: string;
+  expected: string;
+}
+
+export const numberNormalizationCases: NormalizationCase[] = [
+  // Compound cardinals
+  { input: 'zero', expected: '0' },
+  { input: 'zero plus one', expected: '0 plus 1' },
+  { input: 'nineteen minus twelve', expected: '19 minus 12' },
+  { input: 'twenty one plus seven', expected: '21 plus 7' },
+  { input: 'twenty one times 2', expected: '21 times 2' },
+  { input: 'thirty five plus forty', expected: '35 plus 40' },
+  { input: 'thirty-five plus forty', expected: '35 plus 40' },
+  { input: 'sixty-six', expected: '66' },
+  { input: 'seventy seven', expected: '77' },
+  { input: 'twenty-one plus thirty-two', expected: '21 plus 32' },
+  { input: 'ninety nine minus ninety', expected: '99 minus 90' },
+  { input: 'forty two times ten', expected: '42 times 10' },
+  { input: 'ten minus five', expected: '10 minus 5' },
+  { input: '6 minus 2', expected: '6 minus 2' },
+
+  // Adjacent numbers that do not form one cardinal stay apart
+  { input: 'one two', expected: '1 2' },
+  { input: 'twenty twelve', expected: '20 12' },
+  { input: 'thirty 5', expected: '30 5' },
+  { input: 'forty and', expected: '40 and' },
+  { input: 'one hundred and 5', expected: '100 and 5' },
+
+  // Hundreds, thousands, millions
+  { input: 'one hundred', expected: '100' },
+  { input: 'one hundred one', expected: '101' },
+  { input: 'one hundred two', expected: '102' },
+  { input: 'one hundred and two', expected: '102' },
+  { input: 'a hundred and ten', expected: '110' },
+  { input: 'two hundred and fifty six', expected: '256' },
+  { input: 'four hundred and four', expected: '404' },
+  { input: 'nine hundred ninety nine', expected: '999' },
+  { input: 'nineteen hundred', expected: '1900' },
+  { input: 'one hundred and twenty three plus seven', expected: '123 plus 7' },
+  { input: 'one thousand', expected: '1000' },
+  { input: 'one thousand and one', expected: '1001' },
+  { input: 'a thousand and one', expected: '1001' },
+  { input: 'a thousand minus 1', expected: '1000 minus 1' },
+  { input: 'two thousand and five', expected: '2005' },
+  { input: 'twelve thousand three hundred forty five', expected: '12345' },
+  { input: 'ninety thousand', expected: '90000' },
+  { input: 'one hundred thousand', expected: '100000' },
+  { input: 'a million', expected: '1000000' },
+  { input: 'two million', expected: '2000000' },
+  { input: 'three million four hundred thousand', expected: '3400000' },
+  { input: 'one million two hundred thousand and one', expected: '1200001' },
+  { input: '1 billion', expected: '1000000000' },
+  { input: '3 hundred', expected: '300' },
+  { input: '5 thousand', expected: '5000' },
+  { input: '2.5 million', expected: '2500000' },
+
+  // "a"/"an", dozens and decimals
+  { input: 'a hundred plus 5', expected: '100 plus 5' },
+  { input: 'a dozen', expected: '12' },
+  { input: 'a dozen plus 3', expected: '12 plus 3' },
+  { input: 'two dozen', expected: '24' },
+  { input: 'an hour', expected: 'an hour' },
+  { input: 'a number', expected: 'a number' },
+  { input: 'an', expected: 'an' },
+  { input: 'three point five plus 1', expected: '3.5 plus 1' },
+  { input: 'zero point two five', expected: '0.25' },
+  { input: 'fifteen point five minus 0.5', expected: '15.5 minus 0.5' },
+  { input: 'what is 0.5 plus 1.25?', expected: '0.5 plus 1.25' },
+  { input: '7.', expected: '7' },
+
+  // Ordinals
+  { input: 'the first', expected: 'the 1' },
+  { input: 'the third', expected: 'the 3' },
+  { input: 'the twenty first', expected: 'the 21' },
+
+  // Fractions
+  { input: 'half', expected: '(1/2)' },
+  { input: 'half of 10', expected: '((1/2) * 10)' },
+  { input: 'half of twenty', expected: '((1/2) * 20)' },
+  { input: 'a half of 10', expected: '((1/2) * 10)' },
+  { input: 'half a dozen', expected: '((1/2) * 12)' },
+  { input: 'half of a hundred', expected: '((1/2) * 100)' },
+  { input: 'third of 9', expected: '((1/3) * 9)' },
+  { input: 'a third of 9', expected: '((1/3) * 9)' },
+  { input: 'one third of 12', expected: '((1/3) * 12)' },
+  { input: 'two thirds of 9', expected: '((2/3) * 9)' },
+  { input: 'the third of 9 plus two', expected: 'the ((1/3) * 9) plus 2' },
+  { input: 'a quarter of 8', expected: '((1/4) * 8)' },
+  { input: 'quarter of 20', expected: '((1/4) * 20)' },
+  { input: 'three quarters of 8', expected: '((3/4) * 8)' },
+  { input: 'a fifth of 25', expected: '((1/5) * 25)' },
+  { input: 'two fifths', expected: '(2/5)' },
+  { input: 'an eighth of 64', expected: '((1/8) * 64)' },
+  { input: 'one tenth of 50', expected: '((1/10) * 50)' },
+  { input: 'half of a number', expected: '(1/2) * a number' },
+
+  // Mixed numbers are one operand
+  { input: 'two and a half', expected: '(2 + 1/2)' },
+  { input: 'two and a half times 2', expected: '(2 + 1/2) times 2' },
+  { input: '10 minus one and a half', expected: '10 minus (1 + 1/2)' },
+  { input: 'two and a half squared', expected: '(2 + 1/2) squared' },
+  { input: 'three and three quarters', expected: '(3 + 3/4)' },
+  { input: 'minus five and a quarter', expected: '-(5 + 1/4)' },
+  { input: '10 divided by half of 4', expected: '10 divided by ((1/2) * 4)' },
+  { input: 'two and a third of 9', expected: '2 and ((1/3) * 9)' },
+
+  // "negative" is always a sign; "minus" is one only where no left-hand operand exists
+  { input: 'minus five', expected: '-5' },
+  { input: 'negative five', expected: '-5' },
+  { input: 'minus five plus 3', expected: '-5 plus 3' },
+  { input: 'what is minus five plus 3', expected: '-5 plus 3' },
+  { input: 'negative 3 times 4', expected: '-3 times 4' },
+  { input: '3 plus minus 2', expected: '3 plus -2' },
+  { input: '3 plus negative 2', expected: '3 plus -2' },
+  { input: 'ten minus minus five', expected: '10 minus -5' },
+  { input: 'subtract minus 4 from 10', expected: 'subtract -4 from 10' },
+  { input: 'multiply minus two by three', expected: 'multiply -2 by 3' },
+  { input: 'minus 3 squared', expected: '-3 squared' },
+  { input: 'negative half of 10', expected: '-((1/2) * 10)' },
+  { input: 'minus a quarter of 8', expected: '-((1/4) * 8)' },
+  { input: 'minus', expected: 'minus' },
+
+  // Whole queries
+  { input: 'what is thirty five plus forty?', expected: '35 plus 40' },
+  { input: "What's one hundred divided by four", expected: '100 divided by 4' },
+  { input: 'calculate twenty five squared', expected: '25 squared' },
+  { input: 'add sixty and seventy', expected: 'add 60 and 70' },
+  { input: 'sum of forty and fifty', expected: 'sum of 40 and 50' },
+  { input: 'eighty with twenty', expected: '80 with 20' },
+  { input: 'eleven times eleven', expected: '11 times 11' },
+  { input: 'fifty divided by two', expected: '50 divided by 2' },
+  { input: 'eighty-eight divided by eight', expected: '88 divided by 8' },
+  { input: 'two raised to ten', expected: '2 raised to 10' },
+  { input: 'seven to the power of three', expected: '7 to the power of 3' },
+];
@@ -0,0 +1,18 @@
+// Values read back after encoding them as network output, checked by `pnpm
+// run check`. The digit encoding keeps 4 integer digits and 2 decimals and
+// clamps larger magnitudes; the legacy scaled encoding rounds to whole numbers.
+export interface OutputEncodingCase {
+  input: string;
+  expected: { digits: number; scaled: number };
+}
+
+export const outputEncodingCases: OutputEncodingCase[] = [
+  { input: '0', expected: { digits: 0, scaled: 0 } },
+  { input: '7', expected: { digits: 7, scaled: 7 } },
+  { input: '42', expected: { digits: 42, scaled: 42 } },
+  { input: '-7.25', expected: { digits: -7.25, scaled: -7 } },
+  { input: '3.14159', expected: { digits: 3.14, scaled: 3 } },
+  { input: '0.004', expected: { digits: 0, scaled: 0 } },
+  { input: '9999.99', expected: { digits: 9999.99, scaled: 10000 } },
+  { input: '12345', expected: { digits: 9999.99, scaled: 12345 } },
+];
@@ -0,0 +1,63 @@
+import { ModelArchitecture } from '../../src/calculator-network';
+import { PredictionStrategy } from '../../src/prediction';
+
+// Which answer combinePrediction picks for a given network output, checked by
+// `pnpm run check`. A fully confident network must never override an exact
+// evaluation; it is only used when the expression has no value.
+export interface StrategyCase {
+  input: string;
+  architecture: ModelArchitecture;
+  network: { value: number; sharpness: number };
+  expected: { value: number; strategy: PredictionStrategy };
+}
+
+export const predictionStrategyCases: StrategyCase[] = [
+  // Confident wrong intent answers lose to the exact evaluation
+  { input: '10% of 20', architecture: 'intent', network: { value: 200, sharpness: 1 }, expected: { value: 2, strategy: 'symbolic' } },
+  { input: '2+3*4', architecture: 'intent', network: { value: 6, sharpness: 1 }, expected: { value: 14, strategy: 'symbolic' } },
+  { input: '(2+3)*4', architecture: 'intent', network: { value: 6, sharpness: 1 }, expected: { value: 20, strategy: 'symbolic' } },
+  { input: '2^1', architecture: 'intent', network: { value: 4, sharpness: 1 }, expected: { value: 2, strategy: 'symbolic' } },
+  {
+    input: 'percent change from 10 to 15',
+    architecture: 'intent',
+    network: { value: -85, sharpness: 1 },
+    expected: { value: 50, strategy: 'symbolic' },
+  },
+  {
+    input: 'what is 8 times 9',
+    architecture: 'feedforward',
+    network: { value: 31, sharpness: 1 },
+    expected: { value: 72, strategy: 'symbolic' },
+  },
+
+  // Answers within 0.5 agree, and the exact value is returned
+  { input: '8 times 9', architecture: 'intent', network: { value: 72, sharpness: 0.4 }, expected: { value: 72, strategy: 'agreement' } },
+  { input: '7 plus 3', architecture: 'feedforward', network: { value: 10.3, sharpness: 1 }, expected: { value: 10, strategy: 'agreement' } },
+
+  // An unknown with nothing to solve it is unsupported, not a math error
+  { input: 'what number', architecture: 'intent', network: { value: 5, sharpness: 1 }, expected: { value: NaN, strategy: 'unsupported' } },
+  { input: 'x', architecture: 'feedforward', network: { value: 5, sharpness: 1 }, expected: { value: NaN, strategy: 'unsupported' } },
+  {
+    input: 'which is bigger 2 or x',
+    architecture: 'intent',
+    network: { value: 2, sharpness: 1 },
+    expected: { value: NaN, strategy: 'unsupported' },
+  },
+  { input: 'x * x = 4', architecture: 'intent', network: { value: 2, sharpness: 1 }, expected: { value: NaN, strategy: 'unsupported' } },
+  // Equations with no solution still have an answer
+  { input: 'x + 1 = x + 2', architecture: 'intent', network: { value: 5, sharpness: 1 }, expected: { value: NaN, strategy: 'symbolic' } },
+
+  // Overflow is a math error, so no network answer stands in for it
+  {
+    input: '10 to the power of 400',
+    architecture: 'intent',
+    network: { value: 5, sharpness: 1 },
+    expected: { value: NaN, strategy: 'symbolic' },
+  },
+  {
+    input: '10 to the power of 401',
+    architecture: 'feedforward',
+    network: { value: 5, sharpness: 1 },
+    expected: { value: NaN, strategy: 'symbolic' },
+  },
+];
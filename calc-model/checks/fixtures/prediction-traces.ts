@@ -0,0 +1,75 @@
+import { PreprocessStages } from '../../src/preprocessor';
+
+// Preprocessing stages `CalculatorModel.explain` reports for the legacy
+// model, checked by `pnpm run check`. The trace must also end in the same
+// prediction `predict` gives, with the network's decoded output as its
+// `neural` value and one token per input of the network.
+export interface TraceCase {
+  input: string;
+  expected: { stages: Omit<PreprocessStages, 'raw'>; tokens: number; sameAsPredict: boolean };
+}
+
+export const traceCases: TraceCase[] = [
+  {
+    input: 'what is twenty five plus 3',
+    expected: {
+      stages: {
+        locale: 'en',
+        translated: 'what is twenty five plus 3',
+        stripped: 'twenty five plus 3',
+        normalized: '25 plus 3',
+        expression: '25 + 3',
+        parsed: true,
+      },
+      tokens: 15,
+      sameAsPredict: true,
+    },
+  },
+  {
+    input: 'cuánto es cinco más tres',
+    expected: {
+      stages: {
+        locale: 'es',
+        translated: 'five plus three',
+        stripped: 'five plus three',
+        normalized: '5 plus 3',
+        expression: '5 + 3',
+        parsed: true,
+      },
+      tokens: 15,
+      sameAsPredict: true,
+    },
+  },
+  {
+    input: 'two and a half times 2',
+    expected: {
+      stages: {
+        locale: 'en',
+        translated: 'two and a half times 2',
+        stripped: 'two and a half times 2',
+        normalized: '(2 + 1/2) times 2',
+        expression: '(2 + 1 / 2) * 2',
+        parsed: true,
+      },
+      tokens: 15,
+      sameAsPredict: true,
+    },
+  },
+  {
+    // Unparsed text still reaches the network, and the trace shows why
+    // nothing is answered
+    input: "what's the weather",
+    expected: {
+      stages: {
+        locale: 'en',
+        translated: "what's the weather",
+        stripped: 'the weather',
+        normalized: 'the weather',
+        expression: 'the weather',
+        parsed: false,
+      },
+      tokens: 15,
+      sameAsPredict: true,
+    },
+  },
+];
@@ -0,0 +1,95 @@
+// Expected TextPreprocessor.preprocess() output, the canonical infix form of
+// the parsed query, checked by `pnpm run check`
+export interface ParsingCase {
+  input: string;
+  expected: string;
+}
+
+export const queryParsingCases: ParsingCase[] = [
+  // Verb-first phrases put operands in the order the verb implies
+  { input: 'subtract 4 from 10', expected: '10 - 4' },
+  { input: 'subtract four from ten', expected: '10 - 4' },
+  { input: 'take 3 from 8', expected: '8 - 3' },
+  { input: 'take away 2 from 9', expected: '9 - 2' },
+  { input: 'deduct 5 from 20', expected: '20 - 5' },
+  { input: 'remove 6 from 16', expected: '16 - 6' },
+  { input: 'reduce 20 by 8', expected: '20 - 8' },
+  { input: 'divide 10 by 2', expected: '10 / 2' },
+  { input: 'divide 100 by four', expected: '100 / 4' },
+  { input: 'multiply 4 by 5', expected: '4 * 5' },
+  { input: 'multiply 6 with 7', expected: '6 * 7' },
+  { input: 'raise 2 to the power 3', expected: '2^3' },
+  { input: 'raise 2 to the power of 10', expected: '2^10' },
+  { input: 'raise 3 to 4', expected: '3^4' },
+  { input: 'add 3 and 5', expected: '3 + 5' },
+  { input: 'add 3 to 5', expected: '3 + 5' },
+  { input: 'what will I get if I add 7 with 3', expected: '7 + 3' },
+
+  // Noun phrases
+  { input: 'sum of 4 and 6', expected: '4 + 6' },
+  { input: 'what is the sum of 4 and 6', expected: '4 + 6' },
+  { input: 'the product of 6 and 7', expected: '6 * 7' },
+  { input: 'the difference between 10 and 4', expected: '10 - 4' },
+  { input: 'the quotient of 20 and 5', expected: '20 / 5' },
+
+  // Infix words and symbols
+  { input: '2+2', expected: '2 + 2' },
+  { input: '10 - 5', expected: '10 - 5' },
+  { input: '8*9', expected: '8 * 9' },
+  { input: '10/2', expected: '10 / 2' },
+  { input: 'what is 8 times 9', expected: '8 * 9' },
+  { input: '15 divided by 3', expected: '15 / 3' },
+  { input: 'what is 8 multiplied by 9', expected: '8 * 9' },
+  { input: '10 over 4', expected: '10 / 4' },
+  { input: 'what is 2 into 2', expected: '2 + 2' },
+  { input: '7 with 3', expected: '7 + 3' },
+  { input: '3 lots of 4', expected: '3 * 4' },
+  { input: '12 shared by 4', expected: '12 / 4' },
+  { input: '8 square', expected: '8^2' },
+  { input: '4 squared', expected: '4^2' },
+  { input: '3^2', expected: '3^2' },
+  { input: '2 cubed', expected: '2^3' },
+  { input: 'what is 2 power 2', expected: '2^2' },
+  { input: '2 to the power of 3', expected: '2^3' },
+  { input: '2 raised to 10', expected: '2^10' },
+
+  // Lead-in words are skipped
+  { input: 'work out 7 times 8', expected: '7 * 8' },
+  { input: 'tell me 20 divided by 5', expected: '20 / 5' },
+  { input: 'could you solve 9 minus 3', expected: '9 - 3' },
+
+  // Precedence and associativity
+  { input: '2 + 3 * 4', expected: '2 + 3 * 4' },
+  { input: '2 * 3 + 4', expected: '2 * 3 + 4' },
+  { input: '10 - 4 - 3', expected: '10 - 4 - 3' },
+  { input: '100 / 10 / 5', expected: '100 / 10 / 5' },
+  { input: '2 ^ 3 ^ 2', expected: '2^3^2' },
+  { input: 'subtract 4 from 10 plus 2', expected: '10 + 2 - 4' },
+  { input: 'divide 10 by 2 times 3', expected: '10 / (2 * 3)' },
+
+  // Signs and fractions from number normalization
+  { input: 'minus five plus 3', expected: '-5 + 3' },
+  { input: '3 plus minus 2', expected: '3 + -2' },
+  { input: 'ten minus minus five', expected: '10 - -5' },
+  { input: 'minus 3 squared', expected: '-(3^2)' },
+  { input: 'subtract minus 4 from 10', expected: '10 - -4' },
+  { input: 'multiply minus two by three', expected: '-2 * 3' },
+  { input: 'half of 10', expected: '1 / 2 * 10' },
+  { input: 'two thirds of 9', expected: '2 / 3 * 9' },
+
+  // Functions, modulo and percent
+  { input: 'what is 5 factorial', expected: '5!' },
+  { input: 'factorial of 4', expected: '4!' },
+  { input: '2 + 3!', expected: '2 + 3!' },
+  { input: 'the square root of 16', expected: 'sqrt(16)' },
+  { input: 'square root of 81 plus 1', expected: 'sqrt(81) + 1' },
+  { input: 'sqrt 25', expected: 'sqrt(25)' },
+  { input: '10 mod 3', expected: '10 % 3' },
+  { input: '10 modulo 4', expected: '10 % 4' },
+  { input: '50%', expected: '50%' },
+
+  // Text the grammar does not cover falls back to word substitution
+  { input: 'hello world', expected: 'hello world' },
+  { input: 'add 3', expected: '+ 3' },
+  { input: 'subtract 4 and 10', expected: '- 4 + 10' },
+];
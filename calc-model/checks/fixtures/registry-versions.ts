@@ -0,0 +1,66 @@
+import { ModelArchitecture } from '../../src/calculator-network';
+import { ModelManifest } from '../../src/model-registry';
+
+// A registry of saved versions and what `ModelRegistry.resolve` picks from it,
+// checked by `pnpm run check`. Each input is a version and an optional
+// architecture; null means nothing resolves.
+export interface RegistryCase {
+  input: string;
+  expected: string | null;
+}
+
+function manifest(
+  id: string,
+  architecture: ModelArchitecture,
+  exactMatch: number,
+  heldOutNetworkExactMatch?: number
+): ModelManifest {
+  return {
+    id,
+    createdAt: `${id.slice(0, 4)}-${id.slice(4, 6)}-${id.slice(6, 8)}T00:00:00.000Z`,
+    architecture,
+    hiddenLayers: [10],
+    activation: 'sigmoid',
+    learningRate: 0.3,
+    iterations: 100,
+    trainedIterations: 100,
+    finalError: 0.01,
+    datasetHash: 'cabd19b918cc',
+    datasetSize: 400,
+    tokenizerVersion: 1,
+    metrics: {
+      exactMatch,
+      networkExactMatch: exactMatch,
+      meanAbsoluteError: 0,
+      heldOut:
+        heldOutNetworkExactMatch === undefined
+          ? undefined
+          : { testSize: 100, exactMatch: 1, networkExactMatch: heldOutNetworkExactMatch },
+    },
+  };
+}
+
+export const registryManifests: ModelManifest[] = [
+  manifest('20261001-000000-feedforward', 'feedforward', 0.99, 0.4),
+  manifest('20261002-000000-feedforward', 'feedforward', 0.9, 0.6),
+  // Saved without a test split
+  manifest('20261003-000000-feedforward', 'feedforward', 1),
+  manifest('20261004-000000-intent', 'intent', 0.95, 0.9),
+  manifest('20261005-000000-intent', 'intent', 0.95, 0.9),
+];
+
+export const registryCases: RegistryCase[] = [
+  { input: 'latest feedforward', expected: '20261003-000000-feedforward' },
+  // Held-out network accuracy decides, not final answers on the training data
+  { input: 'best feedforward', expected: '20261002-000000-feedforward' },
+  // Newest first on ties
+  { input: 'best intent', expected: '20261005-000000-intent' },
+  { input: 'latest', expected: '20261005-000000-intent' },
+  { input: 'best', expected: '20261005-000000-intent' },
+  { input: 'latest lstm', expected: null },
+  { input: 'best gru', expected: null },
+  { input: '20261001-000000-feedforward', expected: '20261001-000000-feedforward' },
+  // An id decides the architecture
+  { input: '20261001-000000-feedforward intent', expected: '20261001-000000-feedforward' },
+  { input: '20261231-000000-feedforward', expected: null },
+];
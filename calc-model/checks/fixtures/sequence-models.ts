@@ -0,0 +1,35 @@
+import { NetworkConfig } from '../../src/calculator-network';
+import { SequenceArchitecture } from '../../src/sequence-network';
+
+// LSTM and GRU models trained for a few iterations on five examples, saved to
+// a temporary registry and loaded back, checked by `pnpm run check`. The
+// manifest records the architecture and the cells' fixed activation whatever
+// was asked for, and the loaded model's network answers exactly as the
+// trained one's did.
+export interface SequenceModelCase {
+  input: string;
+  architecture: SequenceArchitecture;
+  config: Partial<NetworkConfig>;
+  expected: { architecture: SequenceArchitecture; activation: string; sameAfterLoading: boolean };
+}
+
+export const sequenceModelCases: SequenceModelCase[] = [
+  {
+    input: 'lstm',
+    architecture: 'lstm',
+    config: {},
+    expected: { architecture: 'lstm', activation: 'tanh', sameAfterLoading: true },
+  },
+  {
+    input: 'gru',
+    architecture: 'gru',
+    config: {},
+    expected: { architecture: 'gru', activation: 'tanh', sameAfterLoading: true },
+  },
+  {
+    input: 'lstm asked for sigmoid',
+    architecture: 'lstm',
+    config: { activation: 'sigmoid' },
+    expected: { architecture: 'lstm', activation: 'tanh', sameAfterLoading: true },
+  },
+];
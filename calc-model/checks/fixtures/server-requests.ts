@@ -0,0 +1,66 @@
+// Requests to the prediction server and the status and error (or result) it
+// answers with, checked by `pnpm run check` against the legacy model.json.
+// `bodyBytes` sends a body of that many bytes instead of `body`.
+export interface ServerCase {
+  input: string;
+  request: { method: string; path: string; body?: string; bodyBytes?: number };
+  expected: { status: number; error?: string; result?: number };
+}
+
+export const serverRequestCases: ServerCase[] = [
+  {
+    input: 'a query',
+    request: { method: 'POST', path: '/predict', body: '{"query":"what is 8 times 9"}' },
+    expected: { status: 200, result: 72 },
+  },
+  {
+    input: 'a null body',
+    request: { method: 'POST', path: '/predict', body: 'null' },
+    expected: { status: 400, error: 'Request body must be a JSON object' },
+  },
+  {
+    input: 'an array body',
+    request: { method: 'POST', path: '/predict/batch', body: '["2+2"]' },
+    expected: { status: 400, error: 'Request body must be a JSON object' },
+  },
+  {
+    input: 'a number body',
+    request: { method: 'POST', path: '/predict', body: '5' },
+    expected: { status: 400, error: 'Request body must be a JSON object' },
+  },
+  {
+    input: 'invalid JSON',
+    request: { method: 'POST', path: '/predict', body: '{"query":' },
+    expected: { status: 400, error: 'Request body must be valid JSON' },
+  },
+  {
+    input: 'an empty query',
+    request: { method: 'POST', path: '/predict', body: '{"query":"  "}' },
+    expected: { status: 400, error: 'Each query must be a non-empty string' },
+  },
+  {
+    input: 'an unknown locale',
+    request: { method: 'POST', path: '/predict', body: '{"query":"2+2","locale":"fr"}' },
+    expected: { status: 400, error: '"locale" must be auto or one of en, es, hi' },
+  },
+  {
+    input: 'an empty batch',
+    request: { method: 'POST', path: '/predict/batch', body: '{"queries":[]}' },
+    expected: { status: 400, error: '"queries" must be a non-empty array of strings' },
+  },
+  {
+    input: 'an unknown path',
+    request: { method: 'GET', path: '/nowhere' },
+    expected: { status: 404, error: 'Not found: /nowhere' },
+  },
+  {
+    input: 'the wrong method',
+    request: { method: 'GET', path: '/predict' },
+    expected: { status: 405, error: 'Method GET not allowed' },
+  },
+  {
+    input: 'a body over 1 MB',
+    request: { method: 'POST', path: '/predict', bodyBytes: 2 * 1024 * 1024 },
+    expected: { status: 413, error: 'Request body too large' },
+  },
+];
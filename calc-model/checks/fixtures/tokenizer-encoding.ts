@@ -0,0 +1,68 @@
+// Expected network input for preprocessed expressions, checked by
+// `pnpm run check`. `chars` must keep matching models trained before
+// tokenizers were recorded.
+export interface TokenizerCase {
+  input: string;
+  expected: { chars: number[]; numeric: number[] };
+}
+
+export const tokenizerEncodingCases: TokenizerCase[] = [
+  {
+    input: '8 * 9',
+    expected: {
+      chars: [0.9, 0.01, 0.93, 0.01, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+      numeric: [1, 0, 0.239, 1, 0, 0.25, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+    },
+  },
+  {
+    input: '-5 + 3',
+    expected: {
+      chars: [0.92, 0.6, 0.01, 0.91, 0.01, 0.4, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+      numeric: [1, 1, 0.195, 1, 0, 0.151, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+    },
+  },
+  {
+    input: 'sqrt(16)',
+    expected: {
+      chars: [0.02, 0.02, 0.02, 0.02, 0.02, 0.2, 0.7, 0.02, 0, 0, 0, 0, 0, 0, 0],
+      numeric: [1, 0, 0.308, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+    },
+  },
+  {
+    input: '(3 + 5) * 2',
+    expected: {
+      chars: [0.02, 0.4, 0.01, 0.91, 0.01, 0.6, 0.02, 0.01, 0.93, 0.01, 0.3, 0, 0, 0, 0],
+      numeric: [1, 0, 0.151, 1, 0, 0.195, 1, 0, 0.119, 1, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+    },
+  },
+  {
+    // Comparators get flags of their own, so "7 > 5" and "7 < 5" differ
+    input: '7 > 5',
+    expected: {
+      chars: [0.8, 0.01, 0.02, 0.01, 0.6, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+      numeric: [1, 0, 0.226, 1, 0, 0.195, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0],
+    },
+  },
+  {
+    input: '7 < 5',
+    expected: {
+      chars: [0.8, 0.01, 0.02, 0.01, 0.6, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+      numeric: [1, 0, 0.226, 1, 0, 0.195, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0],
+    },
+  },
+  {
+    input: 'max(3^2, 10)',
+    expected: {
+      chars: [0.02, 0.02, 0.02, 0.02, 0.4, 0.95, 0.3, 0.02, 0.01, 0.2, 0.1, 0.02, 0, 0, 0],
+      numeric: [1, 0, 0.151, 1, 0, 0.119, 1, 0, 0.26, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0],
+    },
+  },
+  {
+    // Word substitution leftovers do not parse, so only the last neuron is set
+    input: 'split 12 + 3 parts',
+    expected: {
+      chars: [0.02, 0.02, 0.02, 0.02, 0.02, 0.01, 0.2, 0.3, 0.01, 0.91, 0.01, 0.4, 0.01, 0.02, 0.02],
+      numeric: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
+    },
+  },
+];
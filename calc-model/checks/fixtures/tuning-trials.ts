@@ -0,0 +1,35 @@
+import { ModelArchitecture, NetworkConfig } from '../../src/calculator-network';
+
+// Hyperparameter searches over a few tiny configurations, checked by `pnpm
+// run check`: the activations of the trials that finished and were ranked,
+// in alphabetical order, or the error when none did. Trials whose
+// configuration the network rejects are skipped.
+export interface TuningCase {
+  input: string;
+  architecture: ModelArchitecture;
+  candidates: NetworkConfig[];
+  expected: string[] | string;
+}
+
+const tiny = (activation: string): NetworkConfig => ({ hiddenLayers: [4], activation, learningRate: 0.3, iterations: 10 });
+
+export const tuningCases: TuningCase[] = [
+  {
+    input: 'every trial finishes',
+    architecture: 'feedforward',
+    candidates: [tiny('sigmoid'), tiny('tanh')],
+    expected: ['sigmoid', 'tanh'],
+  },
+  {
+    input: 'an unknown activation is skipped',
+    architecture: 'feedforward',
+    candidates: [tiny('sigmoid'), tiny('softsign')],
+    expected: ['sigmoid'],
+  },
+  {
+    input: 'every trial fails',
+    architecture: 'feedforward',
+    candidates: [tiny('softsign'), { ...tiny('sigmoid'), learningRate: NaN }],
+    expected: 'Error: All 2 trials failed',
+  },
+];
@@ -0,0 +1,40 @@
+// Expected canonical conversion and value for unit conversion queries,
+// checked by `pnpm run check`. A null value means the units cannot be
+// converted into each other.
+export interface ConversionCase {
+  input: string;
+  expected: { expression: string; value: number | null };
+}
+
+export const unitConversionCases: ConversionCase[] = [
+  // Length
+  { input: '5 km in miles', expected: { expression: '5 km to mi', value: 3.10685596119 } },
+  { input: 'convert 5 km to miles', expected: { expression: '5 km to mi', value: 3.10685596119 } },
+  { input: 'five kilometers into miles', expected: { expression: '5 km to mi', value: 3.10685596119 } },
+  { input: 'a mile in feet', expected: { expression: '1 mi to ft', value: 5280 } },
+  { input: '12 inches to cm', expected: { expression: '12 in to cm', value: 30.48 } },
+  { input: '2.5 metres in millimetres', expected: { expression: '2.5 m to mm', value: 2500 } },
+
+  // Weight
+  { input: '1.5 kg to pounds', expected: { expression: '1.5 kg to lb', value: 3.30693393277 } },
+  { input: 'what is 10 stone in kg', expected: { expression: '10 st to kg', value: 63.5029318 } },
+  { input: '16 ounces in pounds', expected: { expression: '16 oz to lb', value: 1 } },
+  { input: '2 tonnes to kilograms', expected: { expression: '2 t to kg', value: 2000 } },
+
+  // Temperature, where scales have different zeros
+  { input: '100 F to celsius', expected: { expression: '100 °F to °C', value: 37.7777777778 } },
+  { input: '100°f to °c', expected: { expression: '100 °F to °C', value: 37.7777777778 } },
+  { input: '-40 degrees celsius in fahrenheit', expected: { expression: '-40 °C to °F', value: -40 } },
+  { input: '0 c to kelvin', expected: { expression: '0 °C to K', value: 273.15 } },
+  { input: '212 fahrenheit to kelvin', expected: { expression: '212 °F to K', value: 373.15 } },
+
+  // Time
+  { input: '3 hours in minutes', expected: { expression: '3 h to min', value: 180 } },
+  { input: 'an hour in seconds', expected: { expression: '1 h to s', value: 3600 } },
+  { input: '2 weeks in days', expected: { expression: '2 wk to d', value: 14 } },
+  { input: '90 minutes to hours', expected: { expression: '90 min to h', value: 1.5 } },
+
+  // Different dimensions
+  { input: '5 km in hours', expected: { expression: '5 km to h', value: null } },
+  { input: '3 kg to celsius', expected: { expression: '3 kg to °C', value: null } },
+];
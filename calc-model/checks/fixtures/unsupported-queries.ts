@@ -0,0 +1,62 @@
+// Queries a model must not answer with a number, and the validation issues
+// each one raises, checked by `pnpm run check` against the operand limit of
+// the built-in training data (25)
+export interface UnsupportedCase {
+  input: string;
+  expected: string[]; // ValidationIssue kinds, in order
+}
+
+export const unsupportedQueryCases: UnsupportedCase[] = [
+  // No numbers at all
+  { input: "what's the weather", expected: ['not-math'] },
+  { input: 'hello', expected: ['not-math'] },
+  { input: 'hello world', expected: ['not-math'] },
+  { input: 'tell me a joke', expected: ['not-math'] },
+  { input: 'how are you?', expected: ['not-math'] },
+  { input: 'what is the capital of france', expected: ['not-math'] },
+  { input: 'who won the game last night', expected: ['not-math'] },
+  { input: 'asdf', expected: ['not-math'] },
+  { input: '???', expected: ['not-math'] },
+  { input: '', expected: ['not-math'] },
+  { input: 'plus plus', expected: ['not-math'] },
+  { input: 'cuanto es la vida', expected: ['not-math'] },
+
+  // Numbers among words nothing understands
+  { input: 'what is 5 apples plus 3', expected: ['unknown-words'] },
+  { input: 'add 3 and banana', expected: ['unknown-words'] },
+  { input: 'what is the weather like in 5 days', expected: ['unknown-words'] },
+  { input: '12 monkeys', expected: ['unknown-words'] },
+  { input: 'call me at 5', expected: ['unknown-words'] },
+  { input: 'is 7 greater than my 5 cats', expected: ['unknown-words'] },
+  { input: 'hello 2 plus 2', expected: ['unknown-words'] },
+
+  // Known words the grammar cannot put together
+  { input: '5 plus', expected: ['unparsed'] },
+  { input: '5 plus times 3', expected: ['unparsed'] },
+  { input: '8 divided by', expected: ['unparsed'] },
+  { input: '* 3 + 2', expected: ['unparsed'] },
+  { input: 'times 3 plus 2', expected: ['unparsed'] },
+  { input: '/ 2', expected: ['unparsed'] },
+  { input: '= 5', expected: ['unparsed'] },
+  { input: 'and + 4 = 10', expected: ['unparsed'] },
+
+  // Numbers the network never saw; the exact answer is still given
+  { input: '1000000 times 3', expected: ['out-of-range'] },
+  { input: 'what is 30 plus 40', expected: ['out-of-range'] },
+  { input: 'square root of 81', expected: ['out-of-range'] },
+  { input: 'mil doscientos más cien', expected: ['out-of-range'] },
+  { input: '1000 bananas', expected: ['unknown-words', 'out-of-range'] },
+  { input: 'is 30 greater than 20', expected: ['out-of-range'] },
+
+  // Supported queries raise nothing
+  { input: 'what is 8 times 9', expected: [] },
+  { input: 'what is 7', expected: [] },
+  { input: 'could you work out 9 minus 3', expected: [] },
+  { input: 'add 3 to 5 then multiply by 2', expected: [] },
+  { input: '10 divided by 0', expected: [] },
+  { input: 'cuanto es cinco mas tres', expected: [] },
+  { input: '5000 km in miles', expected: [] },
+  { input: 'which is bigger, 3 squared or 10', expected: [] },
+  { input: 'is 12 divisible by 4', expected: [] },
+  { input: 'what number times 4 is 20', expected: [] },
+];
@@ -0,0 +1,88 @@
+// The forward pass of brain.js's NeuralNetwork over the JSON it saves, and
+// nothing else. Exported standalone predictors bundle this in place of
+// brain.js. Layer outputs are kept in Float32Arrays as brain.js keeps them,
+// so answers match to the last bit.
+
+type Activation = 'sigmoid' | 'relu' | 'leaky-relu' | 'tanh';
+
+interface SavedLayer {
+  [node: string]: { bias: number; weights: { [node: string]: number } };
+}
+
+interface DenseLayer {
+  biases: Float32Array;
+  weights: Float32Array[];
+}
+
+export class NeuralNetwork {
+  private layers: DenseLayer[] = [];
+  private inputKeys: string[] | null = null;
+  private outputKeys: string[] | null = null;
+  private activation: Activation = 'sigmoid';
+  private leakyReluAlpha = 0.01;
+
+  // Accepts brain.NeuralNetwork's options; the layer sizes come from fromJSON
+  constructor(options: object = {}) {}
+
+  fromJSON(json: any): this {
+    this.activation = json.activation ?? 'sigmoid';
+    this.leakyReluAlpha = json.leakyReluAlpha ?? 0.01;
+
+    const layers: SavedLayer[] = json.layers;
+    this.layers = layers.slice(1).map((layer) => {
+      const nodes = Object.keys(layer);
+      return {
+        biases: Float32Array.from(nodes.map((node) => layer[node].bias)),
+        weights: nodes.map((node) => Float32Array.from(Object.values(layer[node].weights))),
+      };
+    });
+
+    // Named inputs and outputs, as brain.js reads them back. A network saved
+    // a second time claims named inputs even for array input; brain.js then
+    // copies the input into a Float32Array, and so does run().
+    this.inputKeys = json.inputLookup || !layers[0][0] ? Object.keys(layers[0]) : null;
+    const outputLayer = layers[layers.length - 1];
+    this.outputKeys = json.outputLookup || !outputLayer[0] ? Object.keys(outputLayer) : null;
+    return this;
+  }
+
+  run(input: ArrayLike<number>): any {
+    let values = input;
+    if (this.inputKeys) {
+      values = Float32Array.from(this.inputKeys, (key) => (input as any)[key] ?? 0);
+    }
+    this.layers.forEach(({ biases, weights }) => {
+      const outputs = new Float32Array(biases.length);
+      for (let node = 0; node < biases.length; node++) {
+        let sum = biases[node];
+        for (let k = 0; k < weights[node].length; k++) {
+          sum += weights[node][k] * values[k];
+        }
+        outputs[node] = this.activate(sum);
+      }
+      values = outputs;
+    });
+
+    if (!this.outputKeys) return Float32Array.from(values);
+    const output: { [key: string]: number } = {};
+    this.outputKeys.forEach((key, index) => (output[key] = values[index]));
+    return output;
+  }
+
+  train(): never {
+    throw new Error('A standalone predictor can only run its network, not train it');
+  }
+
+  private activate(sum: number): number {
+    switch (this.activation) {
+      case 'sigmoid':
+        return 1 / (1 + Math.exp(-sum));
+      case 'relu':
+        return sum < 0 ? 0 : sum;
+      case 'leaky-relu':
+        return sum < 0 ? 0 : this.leakyReluAlpha * sum;
+      case 'tanh':
+        return Math.tanh(sum);
+    }
+  }
+}
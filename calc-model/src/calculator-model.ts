@@ -1,113 +1,381 @@
-import * as brain from 'brain.js';
-import { TextPreprocessor } from './preprocessor';
+import { TextPreprocessor, PreprocessStages, TrainingExample, TOKENIZER_VERSION } from './preprocessor';
 import { trainingData } from './training-data';
+import { OutputEncodingConfig } from './output-encoding';
+import { TokenizerConfig } from './tokenizer';
+import {
+  CalculatorNetwork,
+  ModelArchitecture,
+  NetworkConfig,
+  NetworkTrainingOptions,
+  NetworkTrainingResult,
+  SavedModel,
+} from './calculator-network';
+import { FeedForwardNetwork } from './feedforward-network';
+import { SequenceNetwork } from './sequence-network';
+import { IntentNetwork } from './intent-network';
+import { combinePrediction, PredictionResult, PredictOptions, predictWith } from './prediction';
+import { hashDataset, ModelManifest, ModelMetrics, ModelRegistry, ModelVersion } from './model-registry';
+import { QueryValidator } from './query-validator';
+import { scoreExamples, summarize } from './evaluation';
+import { hashRun, readCheckpoint, removeCheckpoint, TrainingCheckpoint, writeCheckpoint } from './checkpoint';
 import * as fs from 'fs';
 import * as path from 'path';
 
+// Every stage of one prediction, from the raw query to the chosen answer
+export interface PredictionTrace {
+  stages: PreprocessStages;
+  tokens: number[]; // The network's encoded input; TextPreprocessor.tokenize output for networks without one
+  networkOutput: unknown; // Raw network output before decoding
+  decoded: number; // Network output turned back into a number
+  prediction: PredictionResult;
+}
+
+export interface TrainingOptions extends NetworkTrainingOptions {
+  validation?: TrainingExample[]; // Held out for early stopping; the best weights on it are kept
+  patience?: number; // Validation checks without improvement before stopping
+  checkEvery?: number; // Iterations per round, between validation checks
+  checkpointPath?: string; // Written after every round; a matching one is resumed
+  test?: TrainingExample[]; // Never trained on; scored for the manifest's held-out metrics
+  corrections?: TrainingExample[]; // Among the examples, and trained on `correctionWeight` times each
+  correctionWeight?: number;
+}
+
+interface TrainingResult extends NetworkTrainingResult {
+  validationError?: number;
+}
+
+export interface CalculatorModelOptions {
+  architecture?: ModelArchitecture;
+  outputEncoding?: OutputEncodingConfig; // Feed-forward only
+  tokenizer?: TokenizerConfig; // Feed-forward only
+  config?: Partial<NetworkConfig>; // Overrides the architecture's defaults
+  registryPath?: string;
+}
+
+// Where models were saved before the registry existed. Still loaded as a
+// fallback for 'latest'.
+function legacyModelFileName(architecture: ModelArchitecture): string {
+  return architecture === 'feedforward' ? 'model.json' : `model-${architecture}.json`;
+}
+
+const DEFAULT_PATIENCE = 5;
+
 export class CalculatorModel {
-  private network: brain.NeuralNetwork;
-  private modelPath: string;
+  private network: CalculatorNetwork;
+  private options: CalculatorModelOptions;
+  private registry: ModelRegistry;
+  private manifest: ModelManifest | null = null;
+  private modelFile: SavedModel | null = null;
+  private operandLimit: number | undefined; // Largest number in the training data
+  private trainingExamples: TrainingExample[] = trainingData;
+  private lastTraining: {
+    result: TrainingResult;
+    metrics: ModelMetrics;
+    parentVersion?: string;
+    correctionWeight?: number;
+  } | null = null;
 
-  constructor() {
-    this.network = new brain.NeuralNetwork({
-      hiddenLayers: [15, 10], // Simpler architecture for better learning
-      activation: 'sigmoid',
-    });
-    this.modelPath = path.join(__dirname, '..', 'model.json');
+  constructor(options: CalculatorModelOptions = {}) {
+    this.options = options;
+    this.network = this.createNetwork(options);
+    this.registry = new ModelRegistry(options.registryPath);
   }
 
-  async train(): Promise<void> {
+  private createNetwork(options: CalculatorModelOptions): CalculatorNetwork {
+    const architecture = options.architecture ?? 'feedforward';
+    switch (architecture) {
+      case 'feedforward':
+        return new FeedForwardNetwork(options.config, options.outputEncoding, options.tokenizer);
+      case 'lstm':
+      case 'gru':
+        return new SequenceNetwork(architecture, options.config);
+      case 'intent':
+        return new IntentNetwork(options.config);
+    }
+  }
+
+  get architecture(): ModelArchitecture {
+    return this.network.architecture;
+  }
+
+  // Registry manifest of the loaded or last saved model
+  get version(): ModelManifest | null {
+    return this.manifest;
+  }
+
+  // Contents of the model file last loaded or saved. brain.js reads a file
+  // back slightly differently from how it wrote it, so exports embed this
+  // rather than the network's current JSON.
+  get savedModel(): SavedModel | null {
+    return this.modelFile;
+  }
+
+  // Trains on the static `trainingData` unless another dataset (for example
+  // one from `generateTrainingData`) is passed in. With `resume`, a loaded
+  // model is fine-tuned and the new version records which one it came from.
+  async train(examples: TrainingExample[] = trainingData, options: TrainingOptions = {}): Promise<ModelManifest | null> {
     console.log('Preparing training data...');
 
-    // Convert training data to neural network format
-    const networkData = trainingData.map((example) => ({
-      input: TextPreprocessor.tokenize(example.input),
-      output: { result: example.output / 100 }, // Use object format for brain.js v1.6.1
-    }));
+    this.trainingExamples = examples;
+    const parentVersion = options.resume ? this.manifest?.id : undefined;
+    // A resumed network still knows the numbers it was trained on before
+    const limit = QueryValidator.operandLimit(examples);
+    this.operandLimit = options.resume ? Math.max(limit, this.operandLimit ?? 0) : limit;
+    // The manifest describes the dataset, not the extra copies of corrections
+    // the network sees
+    const correctionWeight = options.corrections?.length ? options.correctionWeight ?? 1 : undefined;
+    const copies = Array.from({ length: (correctionWeight ?? 1) - 1 }, () => options.corrections ?? []).flat();
+    const trained = [...examples, ...copies];
+    const result =
+      options.validation?.length || options.checkpointPath
+        ? this.fitInRounds(trained, options)
+        : this.network.train(trained, options);
+
+    console.log('Training completed!');
+    console.log(`Final error: ${result.error}`);
+    console.log(`Iterations: ${result.iterations}`);
+
+    // Test the model with some examples
+    console.log('\nTesting trained model:');
+    const metrics = this.testModel(options.test);
+    this.lastTraining = { result, metrics, parentVersion, correctionWeight };
+
+    // Save the trained model
+    return this.saveModel();
+  }
+
+  // Trains on the given examples without saving or testing, for evaluation
+  // runs. Uses the iterations of the config the model was constructed with,
+  // so evaluation and tuning train exactly as configured.
+  fit(examples: TrainingExample[], log = true): NetworkTrainingResult {
+    const iterations = this.options.config?.iterations ?? this.network.config.iterations;
+    return this.network.train(examples, { iterations, log, preview: log });
+  }
+
+  // Trains `checkEvery` iterations at a time. After each round the network is
+  // scored on the validation set, the best weights so far are kept and a
+  // checkpoint is written; `patience` rounds without improvement end the run.
+  private fitInRounds(examples: TrainingExample[], options: TrainingOptions): TrainingResult {
+    const validation = options.validation ?? [];
+    const totalIterations = options.iterations ?? this.network.config.iterations;
+    const checkEvery = options.checkEvery ?? Math.max(1, Math.round(totalIterations / 20));
+    const patience = options.patience ?? DEFAULT_PATIENCE;
+    const runHash = hashRun([...examples, ...validation], this.network.config);
+
+    let checkpoint: TrainingCheckpoint = {
+      architecture: this.architecture,
+      runHash,
+      iterations: 0,
+      trainingError: null,
+      bestIteration: 0,
+      bestTrainingError: null,
+      bestValidationError: null,
+      checksWithoutImprovement: 0,
+      model: null,
+      bestModel: null,
+    };
+
+    const saved = options.checkpointPath ? readCheckpoint(options.checkpointPath) : null;
+    if (saved?.model && saved.architecture === this.architecture && saved.runHash === runHash) {
+      this.network.fromJSON(saved.model);
+      checkpoint = saved;
+      console.log(`♻️  Resuming from checkpoint ${options.checkpointPath} at iteration ${saved.iterations}`);
+    }
+
+    while (checkpoint.iterations < totalIterations && checkpoint.checksWithoutImprovement < patience) {
+      const requested = Math.min(checkEvery, totalIterations - checkpoint.iterations);
+      const round = this.network.train(examples, {
+        iterations: requested,
+        resume: options.resume || checkpoint.iterations > 0,
+        log: false,
+        preview: checkpoint.iterations === 0,
+      });
+      checkpoint.iterations += requested;
+      checkpoint.trainingError = round.error;
+
+      // Without a validation set the training error decides what is best
+      const validationError = validation.length ? this.validationError(validation) : round.error;
+      const improved = checkpoint.bestValidationError === null || validationError < checkpoint.bestValidationError;
+      if (improved) {
+        checkpoint.bestIteration = checkpoint.iterations;
+        checkpoint.bestTrainingError = round.error;
+        checkpoint.bestValidationError = validationError;
+        checkpoint.bestModel = this.network.toJSON();
+        checkpoint.checksWithoutImprovement = 0;
+      } else {
+        checkpoint.checksWithoutImprovement++;
+      }
+      checkpoint.model = this.network.toJSON();
 
-    console.log(`Training with ${networkData.length} examples...`);
-    console.log('Sample training data:');
-    networkData.slice(0, 3).forEach((data, index) => {
+      const validationLog = validation.length ? `, validation error: ${validationError.toFixed(6)}` : '';
       console.log(
-        `${index + 1}. Input: "${trainingData[index].input}" -> Tokens: [${data.input
-          .slice(0, 5)
-          .join(', ')}...] -> Output: ${trainingData[index].output}`
+        `iterations: ${checkpoint.iterations}, training error: ${round.error.toFixed(6)}${validationLog}${improved ? ' (best)' : ''}`
       );
-    });
+      if (options.checkpointPath) {
+        writeCheckpoint(options.checkpointPath, checkpoint);
+      }
 
-    const trainResult = this.network.train(networkData, {
-      iterations: 3000,
-      errorThresh: 0.001,
-      log: true,
-      logPeriod: 200,
-      learningRate: 0.5,
-    });
+      // The network stopped short of the round because it reached its error threshold
+      if (round.iterations < requested) break;
+    }
 
-    console.log('Training completed!');
-    console.log(`Final error: ${trainResult.error}`);
-    console.log(`Iterations: ${trainResult.iterations}`);
+    if (checkpoint.checksWithoutImprovement >= patience) {
+      console.log(`Stopped early: no improvement in the last ${patience} checks`);
+    }
+    if (options.checkpointPath) {
+      removeCheckpoint(options.checkpointPath);
+    }
+    if (checkpoint.bestIteration === 0) {
+      return { error: checkpoint.trainingError ?? Infinity, iterations: checkpoint.iterations };
+    }
 
-    // Save the trained model
-    this.saveModel();
+    console.log(`Keeping the weights from iteration ${checkpoint.bestIteration}`);
+    this.network.fromJSON(checkpoint.bestModel!);
+    return {
+      error: checkpoint.bestTrainingError!,
+      iterations: checkpoint.iterations,
+      validationError: validation.length ? checkpoint.bestValidationError! : undefined,
+    };
+  }
 
-    // Test the model with some examples
-    console.log('\nTesting trained model:');
-    this.testModel();
+  // Mean error of the network alone, relative to the size of each answer and
+  // capped at 1, so an answer that is not a number counts as a full miss
+  private validationError(examples: TrainingExample[]): number {
+    const total = examples.reduce((sum, example) => {
+      const { value } = this.network.run(example.input);
+      const error = Number.isNaN(value) ? 1 : Math.abs(value - example.output) / Math.max(1, Math.abs(example.output));
+      return sum + Math.min(1, error);
+    }, 0);
+    return total / examples.length;
   }
 
-  private testModel(): void {
+  private testModel(test: TrainingExample[] = []): ModelMetrics {
     const testCases = ['2+2', 'what is 5 times 3', '8 square', 'subtract 4 from 10', 'what is 2 power 3'];
 
     testCases.forEach((testCase) => {
       const prediction = this.predict(testCase);
-      const expected = this.getExpectedResult(testCase);
-      console.log(`Input: "${testCase}" -> Predicted: ${prediction}, Expected: ${expected}`);
+      const expected = this.getExpectedResult(testCase) ?? 'n/a (not in training data)';
+      console.log(
+        `Input: "${testCase}" -> Predicted: ${prediction.value} (${prediction.strategy}, neural ${prediction.neural}), Expected: ${expected}`
+      );
     });
+
+    // Network-only accuracy, so every architecture is scored the same way
+    const examples = this.trainingExamples;
+    const predictions = examples.map((example) => this.predict(example.input));
+    const correct = predictions.filter((prediction, index) => prediction.neural === examples[index].output).length;
+    const accuracy = ((correct / examples.length) * 100).toFixed(1);
+    console.log(`${this.architecture} exact-match accuracy on training data: ${correct}/${examples.length} (${accuracy}%)`);
+
+    const errors = predictions
+      .map((prediction, index) => Math.abs(prediction.value - examples[index].output))
+      .filter((error) => Number.isFinite(error));
+    const metrics: ModelMetrics = {
+      exactMatch: predictions.filter((prediction, index) => prediction.value === examples[index].output).length / examples.length,
+      networkExactMatch: correct / examples.length,
+      meanAbsoluteError: errors.length ? errors.reduce((sum, error) => sum + error, 0) / errors.length : null,
+    };
+    if (test.length === 0) return metrics;
+
+    const heldOut = summarize('held out', scoreExamples(this, test));
+    const heldOutAccuracy = (heldOut.networkExactMatch * 100).toFixed(1);
+    console.log(`${this.architecture} network exact-match accuracy on ${test.length} held-out examples: ${heldOutAccuracy}%`);
+    return {
+      ...metrics,
+      heldOut: { testSize: test.length, exactMatch: heldOut.exactMatch, networkExactMatch: heldOut.networkExactMatch },
+    };
   }
 
-  private getExpectedResult(input: string): number {
-    const found = trainingData.find((data) => data.input.toLowerCase() === input.toLowerCase());
-    return found ? found.output : 0;
+  private getExpectedResult(input: string): number | null {
+    const found = this.trainingExamples.find((data) => data.input.toLowerCase() === input.toLowerCase());
+    return found ? found.output : null;
   }
 
-  predict(input: string): number {
-    const tokens = TextPreprocessor.tokenize(input);
-    const output = this.network.run(tokens);
-
-    // Handle object output format for brain.js v1.6.1
-    let normalizedOutput: number;
-    if (typeof output === 'object' && (output as any).result !== undefined) {
-      normalizedOutput = (output as any).result;
-    } else if (Array.isArray(output)) {
-      normalizedOutput = output[0];
-    } else {
-      normalizedOutput = output as number;
-    }
+  predict(input: string, options: PredictOptions = {}): PredictionResult {
+    return predictWith(this.network, input, options, this.operandLimit);
+  }
 
-    // Denormalize the output
-    const result = Math.round(normalizedOutput * 100);
-    return result;
+  // predict() with every intermediate stage kept
+  explain(input: string, options: PredictOptions = {}): PredictionTrace {
+    const { locale } = TextPreprocessor.localize(input, options.locale);
+    const stages = TextPreprocessor.stages(input, locale);
+    const run = this.network.run(stages.translated);
+    return {
+      stages,
+      tokens: run.tokens ?? TextPreprocessor.tokenize(stages.translated),
+      networkOutput: run.output,
+      decoded: run.value,
+      prediction: combinePrediction(this.architecture, stages, run, this.operandLimit),
+    };
   }
 
-  saveModel(): void {
+  // Saves the last trained network as a new registry version
+  saveModel(): ModelManifest | null {
+    if (!this.lastTraining) {
+      console.error('Error saving model: nothing has been trained yet');
+      return null;
+    }
+
     try {
-      const modelData = this.network.toJSON();
-      fs.writeFileSync(this.modelPath, JSON.stringify(modelData, null, 2));
-      console.log(`Model saved to ${this.modelPath}`);
+      const modelData = { architecture: this.architecture, operandLimit: this.operandLimit, ...this.network.toJSON() };
+      this.manifest = this.registry.save(modelData, {
+        architecture: this.architecture,
+        ...this.network.config,
+        trainedIterations: this.lastTraining.result.iterations,
+        finalError: this.lastTraining.result.error,
+        datasetHash: hashDataset(this.trainingExamples),
+        datasetSize: this.trainingExamples.length,
+        tokenizerVersion: TOKENIZER_VERSION,
+        tokenizer: this.network.tokenizer?.config.type,
+        metrics: this.lastTraining.metrics,
+        parentVersion: this.lastTraining.parentVersion,
+        correctionWeight: this.lastTraining.correctionWeight,
+        validationError: this.lastTraining.result.validationError,
+      });
+      this.modelFile = modelData;
+      console.log(`Model saved as version ${this.manifest.id}`);
+      return this.manifest;
     } catch (error) {
       console.error('Error saving model:', error);
+      return null;
     }
   }
 
-  loadModel(): boolean {
+  // Loads a registry version by id, or the 'latest'/'best' one for this
+  // model's architecture. An id of another architecture switches to it.
+  loadModel(version: ModelVersion = 'latest'): boolean {
     try {
-      if (fs.existsSync(this.modelPath)) {
-        const modelData = JSON.parse(fs.readFileSync(this.modelPath, 'utf8'));
-        this.network.fromJSON(modelData);
-        console.log(`Model loaded from ${this.modelPath}`);
-        return true;
+      const manifest = this.registry.resolve(version, this.architecture);
+      const legacyPath = path.join(__dirname, '..', legacyModelFileName(this.architecture));
+
+      let modelData: SavedModel;
+      let source: string;
+      if (manifest) {
+        modelData = this.registry.readModel(manifest.id);
+        source = `version ${manifest.id}`;
+      } else if (version === 'latest' && fs.existsSync(legacyPath)) {
+        modelData = JSON.parse(fs.readFileSync(legacyPath, 'utf8'));
+        source = legacyPath;
+      } else {
+        return false;
       }
-      return false;
+
+      // The saved weights fix the layer sizes and activation; learning rate
+      // and iterations can still be changed for further training
+      const architecture: ModelArchitecture = modelData.architecture ?? 'feedforward';
+      const config = manifest
+        ? { ...this.options.config, hiddenLayers: manifest.hiddenLayers, activation: manifest.activation }
+        : this.options.config;
+      this.network = this.createNetwork({ ...this.options, architecture, config });
+      this.network.fromJSON(modelData);
+      // Files saved before the limit was recorded were trained on the
+      // built-in dataset
+      modelData.operandLimit ??= QueryValidator.operandLimit(trainingData);
+      this.operandLimit = modelData.operandLimit;
+      this.manifest = manifest;
+      this.modelFile = modelData;
+      console.log(`Model loaded from ${source}`);
+      return true;
     } catch (error) {
       console.error('Error loading model:', error);
       return false;
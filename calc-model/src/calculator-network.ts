@@ -0,0 +1,60 @@
+import * as brain from 'brain.js';
+import { SavedFeedForward } from './feedforward-network';
+import { TrainingExample } from './preprocessor';
+import { Intent } from './intent';
+import { SavedIntent } from './intent-network';
+import { SavedSequence } from './sequence-network';
+import { Tokenizer } from './tokenizer';
+
+export type ModelArchitecture = 'feedforward' | 'lstm' | 'gru' | 'intent';
+
+export const MODEL_ARCHITECTURES: ModelArchitecture[] = ['feedforward', 'lstm', 'gru', 'intent'];
+
+// Hyperparameters a network was built and trained with, recorded in the
+// model manifest
+export interface NetworkConfig {
+  hiddenLayers: number[];
+  activation: string;
+  learningRate: number;
+  iterations: number;
+}
+
+export interface NetworkTrainingOptions {
+  iterations?: number;
+  log?: boolean;
+  resume?: boolean; // Continue from the current weights instead of starting over
+  preview?: boolean; // Print a summary of the training data first (default true)
+}
+
+export interface NetworkTrainingResult {
+  error: number;
+  iterations: number;
+}
+
+export interface NetworkRun {
+  value: number; // NaN when the network produced something that is not a number
+  sharpness: number; // 0-1, how cleanly the raw output decoded
+  intent?: Intent; // Set by the intent network
+  tokens?: number[]; // Encoded input, for networks that read a fixed-length vector
+  output?: unknown; // Raw network output before decoding, for traces
+}
+
+// What a network writes into the model file. Raw brain.js weights are the
+// oldest feed-forward files.
+export type SavedNetwork = SavedFeedForward | SavedIntent | SavedSequence | brain.INeuralNetworkJSON;
+
+// A model file: the network's fields, the architecture that wrote them and
+// the largest number it was trained on. The oldest files have neither.
+export type SavedModel = SavedNetwork & { architecture?: ModelArchitecture; operandLimit?: number };
+
+// The learned half of CalculatorModel. Each architecture owns how queries are
+// fed in, how answers come back out and what it writes into the model file.
+export interface CalculatorNetwork {
+  readonly architecture: ModelArchitecture;
+  readonly config: NetworkConfig;
+  readonly tokenizer?: Tokenizer; // Set by networks that read a fixed-length vector
+  train(examples: TrainingExample[], options?: NetworkTrainingOptions): NetworkTrainingResult;
+  run(input: string): NetworkRun;
+  toJSON(): SavedNetwork;
+  fromJSON(json: SavedNetwork): void;
+}
@@ -0,0 +1,52 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModelArchitecture, NetworkConfig, SavedNetwork } from './calculator-network';
+import { hashDataset } from './model-registry';
+import { TrainingExample } from './preprocessor';
+
+// Progress of a run trained in rounds, written after every round so an
+// interrupted run can carry on from its last round. The errors and weights
+// are null until the first round is done.
+export interface TrainingCheckpoint {
+  architecture: ModelArchitecture;
+  runHash: string; // See hashRun; a checkpoint for another run is ignored
+  iterations: number;
+  trainingError: number | null;
+  bestIteration: number;
+  bestTrainingError: number | null;
+  bestValidationError: number | null;
+  checksWithoutImprovement: number;
+  model: SavedNetwork | null; // Network weights after `iterations`
+  bestModel: SavedNetwork | null; // Network weights at `bestIteration`
+}
+
+export const DEFAULT_CHECKPOINT_DIR = path.join(__dirname, '..', 'checkpoints');
+
+export function defaultCheckpointPath(architecture: ModelArchitecture): string {
+  return path.join(DEFAULT_CHECKPOINT_DIR, `${architecture}.json`);
+}
+
+// Training and validation sets plus the shape of the network, so resuming
+// with other hidden layers starts over. The iterations are left out: asking
+// for more of them carries on the same run.
+export function hashRun(examples: TrainingExample[], config: NetworkConfig): string {
+  const { iterations, ...shape } = config;
+  return crypto.createHash('sha256').update(JSON.stringify([hashDataset(examples), shape])).digest('hex').slice(0, 12);
+}
+
+export function readCheckpoint(file: string): TrainingCheckpoint | null {
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : null;
+}
+
+// Written to a temporary file first, so stopping the run mid-write leaves
+// the previous checkpoint intact
+export function writeCheckpoint(file: string, checkpoint: TrainingCheckpoint): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(checkpoint));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+export function removeCheckpoint(file: string): void {
+  fs.rmSync(file, { force: true });
+}
@@ -0,0 +1,137 @@
+import { MODEL_ARCHITECTURES, ModelArchitecture, NetworkConfig } from './calculator-network';
+import { generateTrainingData } from './data-generator';
+import { DatasetSource, loadDataset, MergedDataset, mergeDatasets } from './dataset-loader';
+import { isLocaleOption, LOCALE_CODES, LocaleOption } from './locale';
+import { defaultTokenizerConfig, TOKENIZER_TYPES, TokenizerConfig, TokenizerType } from './tokenizer';
+import { isSequenceArchitecture } from './sequence-network';
+import { loadTrainingConfig } from './training-config';
+import { trainingData } from './training-data';
+
+// Reads `--name value` or `--name=value` from the command line arguments
+export function getFlag(args: string[], name: string): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+export function getNumberFlag(args: string[], name: string): number | undefined {
+  const value = getFlag(args, name);
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`--${name} expects a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+export function getArchitectureFlag(args: string[]): ModelArchitecture {
+  const value = getFlag(args, 'model') ?? 'feedforward';
+  if (!MODEL_ARCHITECTURES.includes(value as ModelArchitecture)) {
+    throw new Error(`--model must be one of ${MODEL_ARCHITECTURES.join(', ')}, got "${value}"`);
+  }
+  return value as ModelArchitecture;
+}
+
+export function getLocaleFlag(args: string[]): LocaleOption {
+  const value = getFlag(args, 'locale') ?? 'auto';
+  if (!isLocaleOption(value)) {
+    throw new Error(`--locale must be auto or one of ${LOCALE_CODES.join(', ')}, got "${value}"`);
+  }
+  return value;
+}
+
+// `--tokenizer one-hot-chars` etc.; undefined keeps the network's default
+export function getTokenizerFlag(args: string[]): TokenizerConfig | undefined {
+  const value = getFlag(args, 'tokenizer');
+  if (value === undefined) return undefined;
+  if (!TOKENIZER_TYPES.includes(value as TokenizerType)) {
+    throw new Error(`--tokenizer must be one of ${TOKENIZER_TYPES.join(', ')}, got "${value}"`);
+  }
+  return defaultTokenizerConfig(value as TokenizerType);
+}
+
+// Hyperparameters for the chosen architecture: the tuned defaults from
+// training-config.json, overridden by --hidden-layers 15,10, --activation,
+// --learning-rate and --iterations
+export function getNetworkConfigFlags(args: string[], architecture: ModelArchitecture): Partial<NetworkConfig> {
+  const config: Partial<NetworkConfig> = { ...loadTrainingConfig(architecture) };
+
+  const hiddenLayers = getFlag(args, 'hidden-layers');
+  if (hiddenLayers !== undefined) {
+    config.hiddenLayers = hiddenLayers.split(',').map((size) => {
+      const parsed = parseInt(size, 10);
+      if (!(parsed > 0)) {
+        throw new Error(`--hidden-layers expects comma-separated sizes, got "${hiddenLayers}"`);
+      }
+      return parsed;
+    });
+  }
+
+  const activation = getFlag(args, 'activation');
+  if (activation !== undefined && isSequenceArchitecture(architecture)) {
+    throw new Error(`--activation does not apply to ${architecture}, whose cells always use sigmoid gates and tanh`);
+  }
+  if (activation !== undefined) config.activation = activation;
+
+  const learningRate = getNumberFlag(args, 'learning-rate');
+  if (learningRate !== undefined) config.learningRate = learningRate;
+
+  const iterations = getNumberFlag(args, 'iterations');
+  if (iterations !== undefined) config.iterations = iterations;
+
+  return config;
+}
+
+// Arguments that are neither a `--flag` nor the value that follows one
+export function getPositionalArgs(args: string[]): string[] {
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) {
+      if (!args[i].includes('=')) i++;
+      continue;
+    }
+    positional.push(args[i]);
+  }
+  return positional;
+}
+
+// Dataset paths (.jsonl, .csv or builtin:*) come in as positional arguments
+// and `--generate <count>` adds a procedurally generated set (seeded by
+// `--seed`). With neither, the static `trainingData` is used.
+export function getDatasetFlags(args: string[]): { name: string } & MergedDataset {
+  const sources: DatasetSource[] = getPositionalArgs(args).map(loadDataset);
+
+  const count = getNumberFlag(args, 'generate');
+  if (count !== undefined) {
+    const seed = getNumberFlag(args, 'seed') ?? 42;
+    sources.push({ name: `generated (${count} examples, seed ${seed})`, examples: generateTrainingData({ count, seed }) });
+  }
+
+  if (sources.length === 0) {
+    return { name: 'training-data.ts', examples: trainingData, duplicates: 0, conflicts: [] };
+  }
+
+  const merged = mergeDatasets(sources);
+  return { name: sources.map((source) => source.name).join(' + '), ...merged };
+}
+
+export function logDatasetSummary(dataset: { name: string } & MergedDataset): void {
+  console.log(`📚 Dataset: ${dataset.name} (${dataset.examples.length} examples)`);
+  if (dataset.duplicates > 0) {
+    console.log(`🧹 Dropped ${dataset.duplicates} exact duplicates`);
+  }
+  if (dataset.conflicts.length > 0) {
+    console.log(`⚠️  ${dataset.conflicts.length} inputs have conflicting outputs (keeping the first):`);
+    dataset.conflicts.forEach((conflict) => {
+      const outputs = conflict.outputs.map(({ output, source }) => `${output} (${source})`).join(', ');
+      console.log(`   "${conflict.input}": ${outputs}`);
+    });
+  }
+}
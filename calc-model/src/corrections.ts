@@ -0,0 +1,21 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadDataset } from './dataset-loader';
+import { TrainingExample } from './preprocessor';
+
+// Answers marked wrong with `:wrong` in the REPL, one JSON line per
+// correction in the same format `loadDataset` reads
+export const CORRECTIONS_PATH = path.join(__dirname, '..', 'corrections.jsonl');
+
+export function saveCorrection(correction: TrainingExample, file: string = CORRECTIONS_PATH): void {
+  fs.appendFileSync(file, JSON.stringify({ input: correction.input, output: correction.output }) + '\n');
+}
+
+// Correcting the same query twice keeps the newer answer
+export function loadCorrections(file: string = CORRECTIONS_PATH): TrainingExample[] {
+  if (!fs.existsSync(file)) return [];
+
+  const latest = new Map<string, TrainingExample>();
+  loadDataset(file).examples.forEach((example) => latest.set(example.input.toLowerCase(), example));
+  return [...latest.values()];
+}
@@ -0,0 +1,114 @@
+import { TrainingExample } from './preprocessor';
+import { applyOperation, Operation, OPERATIONS } from './intent';
+import { createRandom } from './random';
+
+export interface OperandRange {
+  min: number;
+  max: number;
+}
+
+// Ranges for operand A and B. For divide, B is the divisor and A is drawn as
+// a multiple of it so every quotient is exact.
+export interface OperationRanges {
+  a: OperandRange;
+  b: OperandRange;
+}
+
+export type PhrasingTemplates = { [operation in Operation]?: string[] };
+
+export interface GeneratorOptions {
+  seed: number;
+  count: number;
+  operations?: Operation[];
+  ranges?: { [operation in Operation]?: Partial<OperationRanges> };
+  templates?: PhrasingTemplates; // Replaces the defaults for the listed operations
+}
+
+export const DEFAULT_RANGES: { [operation in Operation]: OperationRanges } = {
+  add: { a: { min: 0, max: 50 }, b: { min: 0, max: 50 } },
+  subtract: { a: { min: 0, max: 50 }, b: { min: 0, max: 50 } },
+  multiply: { a: { min: 0, max: 12 }, b: { min: 0, max: 12 } },
+  divide: { a: { min: 0, max: 12 }, b: { min: 1, max: 12 } }, // A is the quotient range here
+  power: { a: { min: 0, max: 10 }, b: { min: 0, max: 3 } },
+  square: { a: { min: 0, max: 20 }, b: { min: 0, max: 0 } },
+};
+
+// {a} and {b} are replaced with the operands, in the order the operation
+// applies them: "subtract {b} from {a}" is a - b
+export const DEFAULT_TEMPLATES: { [operation in Operation]: string[] } = {
+  add: [
+    '{a}+{b}',
+    '{a} + {b}',
+    '{a} plus {b}',
+    'what is {a} plus {b}',
+    'add {a} and {b}',
+    'sum of {a} and {b}',
+    'total of {a} and {b}',
+    '{a} added to {b}',
+    'what will I get if I add {a} with {b}',
+    'calculate {a} plus {b}',
+  ],
+  subtract: [
+    '{a}-{b}',
+    '{a} - {b}',
+    '{a} minus {b}',
+    'what is {a} minus {b}',
+    'subtract {b} from {a}',
+    'take {b} from {a}',
+    'what will I get if I subtract {b} from {a}',
+  ],
+  multiply: [
+    '{a}*{b}',
+    '{a} * {b}',
+    '{a} times {b}',
+    'what is {a} times {b}',
+    'multiply {a} by {b}',
+    '{a} multiplied by {b}',
+    'what is {a} multiplied by {b}',
+  ],
+  divide: [
+    '{a}/{b}',
+    '{a} / {b}',
+    '{a} divided by {b}',
+    'divide {a} by {b}',
+    'what is {a} over {b}',
+    'what is {a} divided by {b}',
+  ],
+  power: ['{a}^{b}', '{a} power {b}', 'what is {a} power {b}', '{a} to the power of {b}', '{a} raised to {b}'],
+  square: ['{a} square', '{a} squared', 'what is {a} squared', '{a}^2'],
+};
+
+function randomInt(random: () => number, range: OperandRange): number {
+  return range.min + Math.floor(random() * (range.max - range.min + 1));
+}
+
+// Emits `count` unique examples with exactly computed outputs. Stops early if
+// the ranges and templates cannot produce that many distinct inputs.
+export function generateTrainingData(options: GeneratorOptions): TrainingExample[] {
+  const random = createRandom(options.seed);
+  const operations = options.operations ?? OPERATIONS;
+  const seen = new Set<string>();
+  const examples: TrainingExample[] = [];
+  const maxAttempts = options.count * 20;
+
+  for (let attempt = 0; attempt < maxAttempts && examples.length < options.count; attempt++) {
+    const operation = operations[Math.floor(random() * operations.length)];
+    const ranges = { ...DEFAULT_RANGES[operation], ...options.ranges?.[operation] };
+    const templates = options.templates?.[operation] ?? DEFAULT_TEMPLATES[operation];
+    const template = templates[Math.floor(random() * templates.length)];
+
+    let a = randomInt(random, ranges.a);
+    const b = randomInt(random, ranges.b);
+    if (operation === 'divide') {
+      a = a * b;
+    }
+
+    const input = template.replace(/\{a\}/g, String(a)).replace(/\{b\}/g, String(b));
+    if (seen.has(input)) continue;
+
+    seen.add(input);
+    examples.push({ input, output: applyOperation(operation, [a, b]) });
+  }
+
+  return examples;
+}
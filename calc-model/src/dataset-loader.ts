@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TrainingExample } from './preprocessor';
+import { trainingData } from './training-data';
+import { trainingData as expandedTrainingData } from './training-data-expanded';
+import { trainingData as oldTrainingData } from './training-data-old';
+
+export interface DatasetSource {
+  name: string;
+  examples: TrainingExample[];
+}
+
+export interface DatasetConflict {
+  input: string;
+  outputs: { output: number; source: string }[];
+}
+
+export interface MergedDataset {
+  examples: TrainingExample[];
+  duplicates: number;
+  conflicts: DatasetConflict[];
+}
+
+// The TypeScript datasets that ship with the package, addressable by name
+export const BUILTIN_DATASETS: { [name: string]: TrainingExample[] } = {
+  'builtin:default': trainingData,
+  'builtin:expanded': expandedTrainingData,
+  'builtin:old': oldTrainingData,
+};
+
+function toExample(input: unknown, output: unknown, location: string): TrainingExample {
+  const value = typeof output === 'number' ? output : Number(output);
+  if (typeof input !== 'string' || !input.trim()) {
+    throw new Error(`${location}: missing "input"`);
+  }
+  if (output === '' || output === null || output === undefined || !Number.isFinite(value)) {
+    throw new Error(`${location}: "output" must be a number, got ${JSON.stringify(output)}`);
+  }
+  return { input: input.trim(), output: value };
+}
+
+function parseJsonl(content: string, file: string): TrainingExample[] {
+  const examples: TrainingExample[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    const location = `${file}:${index + 1}`;
+    let row: unknown;
+    try {
+      row = JSON.parse(line);
+    } catch {
+      throw new Error(`${location}: invalid JSON`);
+    }
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      throw new Error(`${location}: expected an object with "input" and "output"`);
+    }
+    const { input, output } = row as { input?: unknown; output?: unknown };
+    examples.push(toExample(input, output, location));
+  });
+  return examples;
+}
+
+// Splits one CSV line, honouring double-quoted fields and "" escapes
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+function parseCsv(content: string, file: string): TrainingExample[] {
+  const lines = content.split(/\r?\n/);
+  const header = parseCsvLine(lines[0] ?? '').map((column) => column.trim().toLowerCase());
+  const inputColumn = header.indexOf('input');
+  const outputColumn = header.indexOf('output');
+  if (inputColumn < 0 || outputColumn < 0) {
+    throw new Error(`${file}:1: CSV header must contain "input" and "output" columns`);
+  }
+
+  const examples: TrainingExample[] = [];
+  lines.slice(1).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    const fields = parseCsvLine(line);
+    examples.push(toExample(fields[inputColumn], fields[outputColumn]?.trim(), `${file}:${index + 2}`));
+  });
+  return examples;
+}
+
+// Loads a .jsonl or .csv file, or one of the builtin:* datasets
+export function loadDataset(source: string): DatasetSource {
+  if (BUILTIN_DATASETS[source]) {
+    return { name: source, examples: BUILTIN_DATASETS[source] };
+  }
+
+  const content = fs.readFileSync(source, 'utf8');
+  const extension = path.extname(source).toLowerCase();
+  switch (extension) {
+    case '.jsonl':
+      return { name: source, examples: parseJsonl(content, source) };
+    case '.csv':
+      return { name: source, examples: parseCsv(content, source) };
+    default:
+      throw new Error(`Unsupported dataset format "${extension}" for ${source} (expected .jsonl or .csv)`);
+  }
+}
+
+// Concatenates sources in order, dropping rows that repeat an earlier input
+// and output exactly. Inputs that appear with different outputs are reported
+// as conflicts; the first output seen is kept.
+export function mergeDatasets(sources: DatasetSource[]): MergedDataset {
+  const firstSeen = new Map<string, { output: number; source: string }>();
+  const conflicts = new Map<string, DatasetConflict>();
+  const examples: TrainingExample[] = [];
+  let duplicates = 0;
+
+  sources.forEach((source) => {
+    source.examples.forEach((example) => {
+      const key = example.input.trim().toLowerCase();
+      const existing = firstSeen.get(key);
+
+      if (!existing) {
+        firstSeen.set(key, { output: example.output, source: source.name });
+        examples.push(example);
+      } else if (existing.output === example.output) {
+        duplicates++;
+      } else {
+        const conflict = conflicts.get(key) ?? { input: example.input, outputs: [existing] };
+        conflict.outputs.push({ output: example.output, source: source.name });
+        conflicts.set(key, conflict);
+      }
+    });
+  });
+
+  return { examples, duplicates, conflicts: Array.from(conflicts.values()) };
+}
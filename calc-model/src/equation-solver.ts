@@ -0,0 +1,137 @@
+import { Expression, formatExpression, variablesOf } from './expression';
+import { DivisionByZeroError, EvaluationError, evaluateExpression, roundResult } from './expression-evaluator';
+
+// Exact solutions of linear equations in one unknown, such as "x + 3 = 10" or
+// "x * 4 = 20" (what QueryParser makes of "what number times 4 is 20"). Both
+// sides are reduced to `coefficient * x + constant`, so the unknown may appear
+// on either side or on both.
+
+// Whether the equation has one solution, none ("x + 1 = x + 2") or holds for
+// every value of the unknown ("2 * x = x + x"); `value` is set for one
+export interface EquationSolution {
+  variable: string;
+  solutions: 'one' | 'none' | 'infinite';
+  value: number | null;
+}
+
+// Not something the solver handles: no "=", more than one unknown, or the
+// unknown squared, in a divisor and the like
+export class EquationError extends EvaluationError {}
+
+export class NoSolutionError extends EquationError {
+  constructor(equation: Expression, name: string) {
+    super(`No value of ${name} solves ${formatExpression(equation)}`);
+  }
+}
+
+export class InfiniteSolutionsError extends EquationError {
+  constructor(equation: Expression, name: string) {
+    super(`Every value of ${name} solves ${formatExpression(equation)}`);
+  }
+}
+
+// `coefficient * x + constant`
+interface Linear {
+  coefficient: number;
+  constant: number;
+}
+
+function scale(linear: Linear, factor: number): Linear {
+  return { coefficient: linear.coefficient * factor, constant: linear.constant * factor };
+}
+
+function notLinear(expression: Expression, name: string): EquationError {
+  return new EquationError(`${formatExpression(expression)} is not linear in ${name}`);
+}
+
+// Throws EquationError when the unknown is not used linearly, and the usual
+// evaluation errors for parts without it ("x = 1 / 0")
+function linearize(expression: Expression, name: string): Linear {
+  if (variablesOf(expression).length === 0) {
+    return { coefficient: 0, constant: evaluateExpression(expression) };
+  }
+
+  switch (expression.type) {
+    case 'number':
+      return { coefficient: 0, constant: expression.value };
+
+    case 'variable':
+      return { coefficient: 1, constant: 0 };
+
+    case 'negate':
+      return scale(linearize(expression.operand, name), -1);
+
+    case 'function':
+      // "x%" is x / 100; sqrt(x) and x! are not linear
+      if (expression.name !== 'percent') throw notLinear(expression, name);
+      return scale(linearize(expression.operand, name), 1 / 100);
+
+    case 'binary': {
+      const left = linearize(expression.left, name);
+      const right = linearize(expression.right, name);
+      switch (expression.operator) {
+        case '+':
+          return { coefficient: left.coefficient + right.coefficient, constant: left.constant + right.constant };
+        case '-':
+          return { coefficient: left.coefficient - right.coefficient, constant: left.constant - right.constant };
+        case '*':
+          if (left.coefficient === 0) return scale(right, left.constant);
+          if (right.coefficient === 0) return scale(left, right.constant);
+          throw notLinear(expression, name);
+        case '/':
+          if (right.coefficient !== 0) throw notLinear(expression, name);
+          if (right.constant === 0) throw new DivisionByZeroError();
+          return scale(left, 1 / right.constant);
+        case '^':
+          if (right.coefficient !== 0 || right.constant !== 1) throw notLinear(expression, name);
+          return left;
+        case '%':
+          throw notLinear(expression, name);
+      }
+    }
+
+    // QueryParser only puts these at the top of a query
+    case 'comparison':
+    case 'choice':
+      throw notLinear(expression, name);
+  }
+}
+
+export class EquationSolver {
+  // Throws EquationError when `equation` is not a linear "=" equation in one
+  // unknown. The solution is rounded like every evaluated result.
+  static solve(equation: Expression): EquationSolution {
+    if (equation.type !== 'comparison') {
+      throw new EquationError(`${formatExpression(equation)} is not an equation`);
+    }
+    if (equation.comparator !== '=') {
+      throw new EquationError(`Only equations can be solved, not "${equation.comparator}" comparisons`);
+    }
+
+    const variables = variablesOf(equation);
+    if (variables.length !== 1) {
+      throw new EquationError(`Equations need exactly one unknown, got ${variables.join(', ') || 'none'}`);
+    }
+    const [name] = variables;
+
+    // Rounding each side first means 0.1x + 0.2x = 0.3x leaves no stray x
+    const left = linearize(equation.left, name);
+    const right = linearize(equation.right, name);
+    const coefficient = roundResult(left.coefficient) - roundResult(right.coefficient);
+    const constant = roundResult(right.constant) - roundResult(left.constant);
+
+    if (coefficient === 0) {
+      return { variable: name, solutions: constant === 0 ? 'infinite' : 'none', value: null };
+    }
+    return { variable: name, solutions: 'one', value: roundResult(constant / coefficient) };
+  }
+
+  // The value of the unknown; throws NoSolutionError or
+  // InfiniteSolutionsError unless exactly one value solves the equation
+  static evaluate(equation: Expression): number {
+    const solution = this.solve(equation);
+    if (solution.solutions === 'none') throw new NoSolutionError(equation, solution.variable);
+    if (solution.solutions === 'infinite') throw new InfiniteSolutionsError(equation, solution.variable);
+    return solution.value!;
+  }
+}
@@ -0,0 +1,35 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getArchitectureFlag, getDatasetFlags, getFlag, getNetworkConfigFlags, getNumberFlag, getTokenizerFlag, logDatasetSummary } from './cli';
+import { evaluate, formatReport } from './evaluation';
+
+async function main() {
+  console.log('📏 AI Calculator - Evaluation Mode');
+  console.log('==================================');
+
+  const args = process.argv.slice(2);
+  const architecture = getArchitectureFlag(args);
+  const dataset = getDatasetFlags(args);
+  logDatasetSummary(dataset);
+  const report = evaluate(dataset.examples, {
+    architecture,
+    config: getNetworkConfigFlags(args, architecture),
+    tokenizer: getTokenizerFlag(args),
+    seed: getNumberFlag(args, 'seed') ?? 42,
+    folds: getNumberFlag(args, 'folds'),
+    testRatio: getNumberFlag(args, 'test-ratio') ?? 0.2,
+  });
+
+  console.log('\n' + formatReport(report));
+
+  const timestamp = report.createdAt.replace(/[:.]/g, '-');
+  const outPath = path.resolve(getFlag(args, 'out') ?? path.join(__dirname, '..', 'reports', `eval-${architecture}-${timestamp}.json`));
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, JSON.stringify(report, null, 2));
+  console.log(`\n📁 Report saved to ${outPath}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Evaluation failed:', error);
+  process.exit(1);
+});
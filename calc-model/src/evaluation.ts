@@ -0,0 +1,219 @@
+import { CalculatorModel } from './calculator-model';
+import { ModelArchitecture, NetworkConfig } from './calculator-network';
+import { deriveIntent, isComparison, isCompound, isEquation } from './intent';
+import { TrainingExample } from './preprocessor';
+import { createRandom, shuffle } from './random';
+import { TokenizerConfig, TokenizerType } from './tokenizer';
+
+export interface EvaluationOptions {
+  architecture: ModelArchitecture;
+  config?: Partial<NetworkConfig>;
+  tokenizer?: TokenizerConfig; // Feed-forward only
+  seed: number;
+  folds?: number; // k-fold cross validation when set, otherwise a single split
+  testRatio: number;
+}
+
+export interface EvaluatedExample {
+  input: string;
+  expected: number;
+  predicted: number;
+  network: number;
+  strategy: string;
+  operation: string;
+  error: number | null; // null when the model produced no number
+}
+
+export interface OperationMetrics {
+  operation: string;
+  count: number;
+  exactMatch: number; // 0-1, final answer
+  networkExactMatch: number; // 0-1, network output alone
+  meanAbsoluteError: number | null;
+  unanswered: number;
+  worstMisses: EvaluatedExample[];
+}
+
+export interface FoldSummary {
+  fold: number;
+  trainSize: number;
+  testSize: number;
+  trainError: number;
+  exactMatch: number;
+}
+
+export interface EvaluationReport {
+  createdAt: string;
+  architecture: ModelArchitecture;
+  config: Partial<NetworkConfig>;
+  tokenizer: TokenizerType | null; // null for the network's default
+  seed: number;
+  mode: 'split' | 'k-fold';
+  testRatio: number | null;
+  datasetSize: number;
+  folds: FoldSummary[];
+  overall: OperationMetrics;
+  operations: OperationMetrics[];
+}
+
+interface DatasetSplit {
+  train: TrainingExample[];
+  test: TrainingExample[];
+}
+
+const WORST_MISS_COUNT = 3;
+
+export function splitDataset(examples: TrainingExample[], testRatio: number, seed: number): DatasetSplit {
+  if (!(testRatio > 0 && testRatio < 1)) {
+    throw new Error(`A held-out ratio must be greater than 0 and less than 1, got ${testRatio}`);
+  }
+  const shuffled = shuffle(examples, createRandom(seed));
+  const testSize = Math.max(1, Math.round(shuffled.length * testRatio));
+  if (testSize >= shuffled.length) {
+    throw new Error(`A held-out ratio of ${testRatio} leaves none of the ${shuffled.length} examples to train on`);
+  }
+  return { train: shuffled.slice(testSize), test: shuffled.slice(0, testSize) };
+}
+
+export function kFoldSplits(examples: TrainingExample[], folds: number, seed: number): DatasetSplit[] {
+  if (!Number.isInteger(folds) || folds < 2 || folds > examples.length) {
+    throw new Error(`Cross validation needs a whole number of folds from 2 to ${examples.length}, got ${folds}`);
+  }
+  const shuffled = shuffle(examples, createRandom(seed));
+  return Array.from({ length: folds }, (_, fold) => ({
+    train: shuffled.filter((_, index) => index % folds !== fold),
+    test: shuffled.filter((_, index) => index % folds === fold),
+  }));
+}
+
+// The operation an example exercises, as derived for the intent model;
+// multi-step queries are grouped as "compound", yes/no or pick-one questions
+// as "comparison" and queries with an unknown as "equation"
+export function operationOf(example: TrainingExample): string {
+  if (isEquation(example.input)) return 'equation';
+  if (isComparison(example.input)) return 'comparison';
+  if (isCompound(example.input)) return 'compound';
+  return deriveIntent(example)?.operation ?? 'unknown';
+}
+
+export function scoreExamples(model: CalculatorModel, examples: TrainingExample[]): EvaluatedExample[] {
+  return examples.map((example) => {
+    const prediction = model.predict(example.input);
+    return {
+      input: example.input,
+      expected: example.output,
+      predicted: prediction.value,
+      network: prediction.neural,
+      strategy: prediction.strategy,
+      operation: operationOf(example),
+      error: Number.isFinite(prediction.value) ? Math.abs(prediction.value - example.output) : null,
+    };
+  });
+}
+
+export function isExact(value: number, expected: number): boolean {
+  return Number.isFinite(value) && Math.abs(value - expected) < 1e-6;
+}
+
+export function summarize(operation: string, evaluated: EvaluatedExample[]): OperationMetrics {
+  const answered = evaluated.filter((example) => example.error !== null);
+  const misses = evaluated
+    .filter((example) => !isExact(example.predicted, example.expected))
+    .sort((left, right) => (right.error ?? Infinity) - (left.error ?? Infinity));
+
+  return {
+    operation,
+    count: evaluated.length,
+    exactMatch: evaluated.filter((example) => isExact(example.predicted, example.expected)).length / evaluated.length,
+    networkExactMatch: evaluated.filter((example) => isExact(example.network, example.expected)).length / evaluated.length,
+    meanAbsoluteError: answered.length
+      ? answered.reduce((sum, example) => sum + (example.error ?? 0), 0) / answered.length
+      : null,
+    unanswered: evaluated.length - answered.length,
+    worstMisses: misses.slice(0, WORST_MISS_COUNT),
+  };
+}
+
+export function evaluate(examples: TrainingExample[], options: EvaluationOptions): EvaluationReport {
+  const splits =
+    options.folds !== undefined
+      ? kFoldSplits(examples, options.folds, options.seed)
+      : [splitDataset(examples, options.testRatio, options.seed)];
+
+  const evaluated: EvaluatedExample[] = [];
+  const folds: FoldSummary[] = [];
+
+  splits.forEach((split, index) => {
+    console.log(`\n📊 Fold ${index + 1}/${splits.length}: ${split.train.length} train, ${split.test.length} test`);
+    const model = new CalculatorModel({ architecture: options.architecture, config: options.config, tokenizer: options.tokenizer });
+    const trainResult = model.fit(split.train, false);
+    const scored = scoreExamples(model, split.test);
+
+    evaluated.push(...scored);
+    folds.push({
+      fold: index + 1,
+      trainSize: split.train.length,
+      testSize: split.test.length,
+      trainError: trainResult.error,
+      exactMatch: summarize('all', scored).exactMatch,
+    });
+  });
+
+  const operations = Array.from(new Set(evaluated.map((example) => example.operation))).sort();
+
+  return {
+    createdAt: new Date().toISOString(),
+    architecture: options.architecture,
+    config: options.config ?? {},
+    tokenizer: options.tokenizer?.type ?? null,
+    seed: options.seed,
+    mode: options.folds ? 'k-fold' : 'split',
+    testRatio: options.folds ? null : options.testRatio,
+    datasetSize: examples.length,
+    folds,
+    overall: summarize('all', evaluated),
+    operations: operations.map((operation) =>
+      summarize(
+        operation,
+        evaluated.filter((example) => example.operation === operation)
+      )
+    ),
+  };
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+export function formatReport(report: EvaluationReport): string {
+  const lines: string[] = [];
+  const row = (metrics: OperationMetrics) =>
+    [
+      metrics.operation.padEnd(10),
+      String(metrics.count).padStart(6),
+      percent(metrics.exactMatch).padStart(8),
+      percent(metrics.networkExactMatch).padStart(9),
+      (metrics.meanAbsoluteError === null ? 'n/a' : metrics.meanAbsoluteError.toFixed(2)).padStart(9),
+    ].join('  ');
+
+  const tokenizer = report.tokenizer ? ` | ${report.tokenizer} tokenizer` : '';
+  lines.push(
+    `Architecture: ${report.architecture}${tokenizer} | ${report.mode} | seed ${report.seed} | ${report.datasetSize} examples`
+  );
+  lines.push('');
+  lines.push(['operation'.padEnd(10), 'count'.padStart(6), 'exact'.padStart(8), 'network'.padStart(9), 'MAE'.padStart(9)].join('  '));
+  report.operations.forEach((metrics) => lines.push(row(metrics)));
+  lines.push(row(report.overall));
+
+  report.operations
+    .filter((metrics) => metrics.worstMisses.length > 0)
+    .forEach((metrics) => {
+      lines.push('');
+      lines.push(`Worst misses (${metrics.operation}):`);
+      metrics.worstMisses.forEach((miss) => {
+        lines.push(`  "${miss.input}" -> ${miss.predicted} (${miss.strategy}), expected ${miss.expected}`);
+      });
+    });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { CalculatorModel } from './calculator-model';
+import { getArchitectureFlag, getFlag } from './cli';
+import { buildDeclarations, buildStandalone, loadStandalone } from './standalone';
+import { STANDALONE_ARCHITECTURES } from './standalone-predictor';
+import { trainingData } from './training-data';
+
+// Queries outside the training data that the exported module is also checked
+// on: other locales, finance, units, comparisons, equations and non-math
+const SAMPLE_QUERIES = [
+  '¿Cuánto es cinco más tres?',
+  'doscientos cincuenta y seis entre ocho',
+  'suma 3 a 5 y luego multiplica por 2',
+  'paanch guna teen kitna hai',
+  'das mein se chaar ghatao',
+  'what is 15 percent of 80',
+  '5 km in miles',
+  'is 7 greater than 5',
+  '2x + 3 = 11',
+  "what's the weather",
+];
+
+async function main() {
+  console.log('📦 AI Calculator - Export Mode');
+  console.log('==============================');
+
+  const args = process.argv.slice(2);
+  const architecture = getArchitectureFlag(args);
+  const version = getFlag(args, 'version') ?? 'latest';
+  const outPath = path.resolve(getFlag(args, 'out') ?? path.join(__dirname, '..', 'exports', 'calculator.js'));
+
+  const model = new CalculatorModel({ architecture });
+  if (!model.loadModel(version)) {
+    console.error(`❌ No trained model found for version "${version}"!`);
+    process.exit(1);
+  }
+  if (!STANDALONE_ARCHITECTURES.includes(model.architecture)) {
+    console.error(`❌ ${model.architecture} models cannot be exported; use one of ${STANDALONE_ARCHITECTURES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const source = buildStandalone(model.savedModel!, model.version?.id ?? null);
+
+  // The exported module has to answer exactly as the model does
+  const predictor = loadStandalone(source);
+  const queries = [...trainingData.map((example) => example.input), ...SAMPLE_QUERIES];
+  const mismatches = queries.filter((query) => !isDeepStrictEqual(predictor.predict(query), model.predict(query)));
+  if (mismatches.length > 0) {
+    console.error(`❌ ${mismatches.length}/${queries.length} exported predictions differ from the model:`);
+    mismatches.slice(0, 5).forEach((query) => console.error(`   "${query}"`));
+    process.exit(1);
+  }
+  console.log(`🔍 ${queries.length}/${queries.length} exported predictions match CalculatorModel.predict`);
+
+  const declarationsPath = outPath.replace(/\.[cm]?js$/, '') + '.d.ts';
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, source);
+  fs.writeFileSync(declarationsPath, buildDeclarations());
+  console.log(`📁 Standalone ${model.architecture} predictor (${(source.length / 1024).toFixed(0)} KB) saved to ${outPath}`);
+  console.log(`📝 Type declarations saved to ${declarationsPath}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Export failed:', error);
+  process.exit(1);
+});
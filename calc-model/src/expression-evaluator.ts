@@ -0,0 +1,383 @@
+import {
+  binary,
+  BinaryOperator,
+  choose,
+  ChoiceFunction,
+  compare,
+  Comparator,
+  call,
+  Expression,
+  negate,
+  num,
+  UnaryFunction,
+  variable,
+} from './expression';
+
+// Tokenizer and Pratt parser for arithmetic text such as "(2+1)^2", "5!",
+// "sqrt(16)", "10 % 3" or "50%", evaluated without running any JavaScript.
+// One comparison may join two such expressions ("3^2 >= 9"), and max/min
+// pick among them ("max(3^2, 10)"). Equations name their unknown with a
+// single letter ("x + 3 = 10"); equation-solver.ts solves them.
+
+export class EvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class ExpressionSyntaxError extends EvaluationError {
+  // `position` is the 0-based character offset of the offending token
+  constructor(message: string, readonly position: number) {
+    super(`${message} at position ${position}`);
+  }
+}
+
+export class DivisionByZeroError extends EvaluationError {
+  constructor() {
+    super('Division by zero');
+  }
+}
+
+// sqrt of a negative number, factorial of a fraction, a negative number to a
+// fractional power, and the like
+export class MathDomainError extends EvaluationError {}
+
+// A result too large for a double, such as 9^9^9
+export class OverflowError extends EvaluationError {
+  constructor() {
+    super('Result is too large to represent');
+  }
+}
+
+type TokenKind = 'number' | 'operator' | 'comparator' | 'name' | 'variable' | '(' | ')' | ',';
+
+export interface ExpressionToken {
+  kind: TokenKind;
+  text: string;
+  position: number;
+}
+
+const OPERATOR_CHARACTERS = '+-*/^%!';
+const NAMES = ['sqrt', 'mod', 'max', 'min'];
+const CHOICE_FUNCTIONS: ChoiceFunction[] = ['max', 'min'];
+export const VARIABLE_NAMES = ['x', 'y', 'z', 'n'];
+// Two-character comparators first, so "<=" is not read as "<" then "="
+const COMPARATOR = /^(<=|>=|!=|=|<|>)/;
+const MAX_FACTORIAL = 170; // 171! overflows a double
+const SIGNIFICANT_DIGITS = 12;
+
+// How tightly each operator holds its operands; `^` is right-associative and
+// postfix `!` / `%` bind tighter than everything
+const BINDING_POWER: { [operator in BinaryOperator]: number } = {
+  '+': 10,
+  '-': 10,
+  '*': 20,
+  '/': 20,
+  '%': 20,
+  '^': 30,
+};
+const NEGATE_BINDING_POWER = 25;
+
+export function tokenizeExpression(text: string): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    const char = text[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d*)?|\.\d+)/.exec(text.slice(position));
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], position });
+      position += number[0].length;
+      continue;
+    }
+
+    const name = /^[a-z]+/i.exec(text.slice(position));
+    if (name) {
+      const word = name[0].toLowerCase();
+      const isVariable = VARIABLE_NAMES.includes(word);
+      if (!NAMES.includes(word) && !isVariable) {
+        throw new ExpressionSyntaxError(`Unknown name "${name[0]}"`, position);
+      }
+      tokens.push({ kind: isVariable ? 'variable' : 'name', text: word, position });
+      position += name[0].length;
+      continue;
+    }
+
+    const comparator = COMPARATOR.exec(text.slice(position));
+    if (comparator) {
+      tokens.push({ kind: 'comparator', text: comparator[0], position });
+      position += comparator[0].length;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: char, text: char, position });
+    } else if (OPERATOR_CHARACTERS.includes(char)) {
+      tokens.push({ kind: 'operator', text: char, position });
+    } else {
+      throw new ExpressionSyntaxError(`Unexpected character "${char}"`, position);
+    }
+    position++;
+  }
+
+  return tokens;
+}
+
+class ArithmeticParser {
+  private index = 0;
+
+  constructor(private readonly tokens: ExpressionToken[], private readonly length: number) {}
+
+  parse(): Expression {
+    if (this.tokens.length === 0) {
+      throw new ExpressionSyntaxError('Empty expression', 0);
+    }
+
+    let expression = this.parseExpression(0);
+    const comparator = this.peek();
+    if (comparator?.kind === 'comparator') {
+      this.index++;
+      expression = compare(comparator.text as Comparator, expression, this.parseExpression(0));
+    }
+
+    const extra = this.peek();
+    if (extra) {
+      throw new ExpressionSyntaxError(`Unexpected "${extra.text}"`, extra.position);
+    }
+    return expression;
+  }
+
+  private parseExpression(minPower: number): Expression {
+    let left = this.parseOperand();
+
+    for (;;) {
+      const token = this.peek();
+      if (!token) break;
+
+      // Postfix: "5!", and "50%" when no operand follows the "%"
+      if (token.text === '!' || (token.text === '%' && !this.startsOperand(this.index + 1))) {
+        this.index++;
+        left = call(token.text === '!' ? 'factorial' : 'percent', left);
+        continue;
+      }
+
+      const operator = this.binaryOperator(token);
+      if (!operator || BINDING_POWER[operator] < minPower) break;
+
+      this.index++;
+      const power = BINDING_POWER[operator];
+      const right = this.parseExpression(operator === '^' ? power : power + 1);
+      left = binary(operator, left, right);
+    }
+
+    return left;
+  }
+
+  private parseOperand(): Expression {
+    const token = this.peek();
+    if (!token) {
+      throw new ExpressionSyntaxError('Unexpected end of expression', this.length);
+    }
+    this.index++;
+
+    if (token.kind === 'number') {
+      return num(parseFloat(token.text));
+    }
+
+    if (token.kind === 'variable') {
+      return variable(token.text);
+    }
+
+    if (token.kind === '(') {
+      const inner = this.parseExpression(0);
+      this.expectClosing();
+      return inner;
+    }
+
+    if (token.text === '-') {
+      return negate(this.parseExpression(NEGATE_BINDING_POWER));
+    }
+
+    if (token.text === '+') {
+      return this.parseExpression(NEGATE_BINDING_POWER);
+    }
+
+    if (token.text === 'sqrt') {
+      this.expectOpening('sqrt');
+      const argument = this.parseExpression(0);
+      this.expectClosing();
+      return call('sqrt', argument);
+    }
+
+    if (CHOICE_FUNCTIONS.includes(token.text as ChoiceFunction)) {
+      this.expectOpening(token.text);
+      const options = [this.parseExpression(0)];
+      while (this.peek()?.kind === ',') {
+        this.index++;
+        options.push(this.parseExpression(0));
+      }
+      this.expectClosing();
+      return choose(token.text as ChoiceFunction, options);
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected "${token.text}"`, token.position);
+  }
+
+  private binaryOperator(token: ExpressionToken): BinaryOperator | null {
+    if (token.text === 'mod') return '%';
+    if (token.kind === 'operator' && token.text !== '!') return token.text as BinaryOperator;
+    return null;
+  }
+
+  private startsOperand(index: number): boolean {
+    const token = this.tokens[index];
+    return (
+      token !== undefined &&
+      (token.kind === 'number' || token.kind === 'variable' || token.kind === '(' || (token.kind === 'name' && token.text !== 'mod'))
+    );
+  }
+
+  private expectOpening(name: string): void {
+    const open = this.peek();
+    if (open?.kind !== '(') {
+      throw new ExpressionSyntaxError(`Expected "(" after ${name}`, open?.position ?? this.length);
+    }
+    this.index++;
+  }
+
+  private expectClosing(): void {
+    const token = this.peek();
+    if (token?.kind !== ')') {
+      throw new ExpressionSyntaxError('Missing ")"', token?.position ?? this.length);
+    }
+    this.index++;
+  }
+
+  private peek(): ExpressionToken | undefined {
+    return this.tokens[this.index];
+  }
+}
+
+export function parseArithmetic(text: string): Expression {
+  return new ArithmeticParser(tokenizeExpression(text), text.length).parse();
+}
+
+function factorial(value: number): number {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_FACTORIAL) {
+    throw new MathDomainError(`Factorial needs a whole number from 0 to ${MAX_FACTORIAL}, got ${value}`);
+  }
+  let result = 1;
+  for (let factor = 2; factor <= value; factor++) {
+    result *= factor;
+  }
+  return result;
+}
+
+function applyFunction(name: UnaryFunction, value: number): number {
+  switch (name) {
+    case 'sqrt':
+      if (value < 0) {
+        throw new MathDomainError(`Square root of negative number ${value}`);
+      }
+      return Math.sqrt(value);
+    case 'factorial':
+      return factorial(value);
+    case 'percent':
+      return value / 100;
+  }
+}
+
+function applyOperator(operator: BinaryOperator, left: number, right: number): number {
+  switch (operator) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      if (right === 0) throw new DivisionByZeroError();
+      return left / right;
+    case '%':
+      if (right === 0) throw new DivisionByZeroError();
+      return left % right;
+    case '^': {
+      if (left === 0 && right < 0) throw new DivisionByZeroError();
+      const power = Math.pow(left, right);
+      if (Number.isNaN(power)) {
+        throw new MathDomainError(`${left} to the power of ${roundResult(right)} is not a real number`);
+      }
+      return power;
+    }
+  }
+}
+
+// Drops binary float noise: 0.1 + 0.2 is 0.3, not 0.30000000000000004
+export function roundResult(value: number): number {
+  return Number.isFinite(value) ? Number(value.toPrecision(SIGNIFICANT_DIGITS)) : value;
+}
+
+function compareValues(comparator: Comparator, left: number, right: number): boolean {
+  switch (comparator) {
+    case '=':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+  }
+}
+
+// Comparisons are 1 when they hold and 0 when they do not, so every
+// expression has a number as its value
+export function evaluateExpression(expression: Expression): number {
+  switch (expression.type) {
+    case 'number':
+      return expression.value;
+
+    // Only an equation gives an unknown a value, see equation-solver.ts
+    case 'variable':
+      throw new EvaluationError(`"${expression.name}" has no value outside an equation`);
+
+    case 'negate':
+      return -evaluateExpression(expression.operand);
+
+    case 'function':
+      return applyFunction(expression.name, evaluateExpression(expression.operand));
+
+    case 'binary': {
+      const value = applyOperator(
+        expression.operator,
+        evaluateExpression(expression.left),
+        evaluateExpression(expression.right)
+      );
+      if (!Number.isFinite(value)) throw new OverflowError();
+      return value;
+    }
+
+    case 'comparison': {
+      // Rounded first, so "0.1 + 0.2 = 0.3" holds
+      const left = roundResult(evaluateExpression(expression.left));
+      const right = roundResult(evaluateExpression(expression.right));
+      return compareValues(expression.comparator, left, right) ? 1 : 0;
+    }
+
+    case 'choice': {
+      const values = expression.options.map(evaluateExpression);
+      return expression.name === 'max' ? Math.max(...values) : Math.min(...values);
+    }
+  }
+}
@@ -0,0 +1,213 @@
+// Typed expression trees produced by QueryParser and parseArithmetic
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^';
+
+// `percent` is "50%" (0.5); `%` between two operands is modulo
+export type UnaryFunction = 'sqrt' | 'factorial' | 'percent';
+
+export interface NumberExpression {
+  type: 'number';
+  value: number;
+}
+
+// The unknown of an equation: "x" in "x + 3 = 10", also what "what number"
+// and "a number" are read as
+export interface VariableExpression {
+  type: 'variable';
+  name: string;
+}
+
+export interface NegateExpression {
+  type: 'negate';
+  operand: Expression;
+}
+
+export interface FunctionExpression {
+  type: 'function';
+  name: UnaryFunction;
+  operand: Expression;
+}
+
+export interface BinaryExpression {
+  type: 'binary';
+  operator: BinaryOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export type Comparator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+// "7 > 5": only ever the whole expression, and 1 when true, 0 when false
+export interface ComparisonExpression {
+  type: 'comparison';
+  comparator: Comparator;
+  left: Expression;
+  right: Expression;
+}
+
+// "max(3^2, 10)": the largest or smallest of the options, for "which is
+// bigger" questions
+export type ChoiceFunction = 'max' | 'min';
+
+export interface ChoiceExpression {
+  type: 'choice';
+  name: ChoiceFunction;
+  options: Expression[];
+}
+
+export type Expression =
+  | NumberExpression
+  | VariableExpression
+  | NegateExpression
+  | FunctionExpression
+  | BinaryExpression
+  | ComparisonExpression
+  | ChoiceExpression;
+
+// Binding strength when printing; higher binds tighter
+const PRECEDENCE: { [operator in BinaryOperator]: number } = {
+  '+': 1,
+  '-': 1,
+  '*': 2,
+  '/': 2,
+  '%': 2,
+  '^': 4,
+};
+const NEGATE_PRECEDENCE = 3;
+const POSTFIX_PRECEDENCE = 5; // "5!", "50%"
+
+export function num(value: number): NumberExpression {
+  return { type: 'number', value };
+}
+
+export function variable(name: string): VariableExpression {
+  return { type: 'variable', name };
+}
+
+export function negate(operand: Expression): NegateExpression {
+  return { type: 'negate', operand };
+}
+
+export function call(name: UnaryFunction, operand: Expression): FunctionExpression {
+  return { type: 'function', name, operand };
+}
+
+export function binary(operator: BinaryOperator, left: Expression, right: Expression): BinaryExpression {
+  return { type: 'binary', operator, left, right };
+}
+
+export function compare(comparator: Comparator, left: Expression, right: Expression): ComparisonExpression {
+  return { type: 'comparison', comparator, left, right };
+}
+
+export function choose(name: ChoiceFunction, options: Expression[]): ChoiceExpression {
+  return { type: 'choice', name, options };
+}
+
+// Number of operations (binary operators and functions) in the tree; more
+// than one means a multi-step or nested query
+export function operatorCount(expression: Expression): number {
+  switch (expression.type) {
+    case 'number':
+    case 'variable':
+      return 0;
+    case 'negate':
+      return operatorCount(expression.operand);
+    case 'function':
+      return 1 + operatorCount(expression.operand);
+    case 'binary':
+    case 'comparison':
+      return 1 + operatorCount(expression.left) + operatorCount(expression.right);
+    case 'choice':
+      return expression.options.reduce((count, option) => count + operatorCount(option), 1);
+  }
+}
+
+// Names of the unknowns in the tree, each once, in reading order
+export function variablesOf(expression: Expression): string[] {
+  switch (expression.type) {
+    case 'number':
+      return [];
+    case 'variable':
+      return [expression.name];
+    case 'negate':
+    case 'function':
+      return variablesOf(expression.operand);
+    case 'binary':
+    case 'comparison':
+      return [...new Set([...variablesOf(expression.left), ...variablesOf(expression.right)])];
+    case 'choice':
+      return [...new Set(expression.options.flatMap(variablesOf))];
+  }
+}
+
+function precedenceOf(expression: Expression): number {
+  switch (expression.type) {
+    case 'number':
+      return expression.value < 0 ? NEGATE_PRECEDENCE : Infinity;
+    case 'variable':
+      return Infinity;
+    case 'negate':
+      return NEGATE_PRECEDENCE;
+    case 'function':
+      return expression.name === 'sqrt' ? Infinity : POSTFIX_PRECEDENCE;
+    case 'binary':
+      return PRECEDENCE[expression.operator];
+    case 'comparison':
+      return 0;
+    case 'choice':
+      return Infinity;
+  }
+}
+
+function wrap(expression: Expression, parenthesize: boolean): string {
+  const text = formatExpression(expression);
+  return parenthesize ? `(${text})` : text;
+}
+
+// Canonical infix text: single spaces around operators except `^`, and only
+// the parentheses precedence requires. `-` applied to a power is always
+// parenthesized ("-(3^2)") so the text never depends on that convention.
+export function formatExpression(expression: Expression): string {
+  switch (expression.type) {
+    case 'number':
+      return String(Math.round(expression.value * 1e9) / 1e9);
+
+    case 'variable':
+      return expression.name;
+
+    case 'negate': {
+      const operand = expression.operand;
+      const parenthesize = operand.type === 'negate' || precedenceOf(operand) <= PRECEDENCE['^'];
+      return `-${wrap(operand, parenthesize)}`;
+    }
+
+    case 'function': {
+      if (expression.name === 'sqrt') {
+        return `sqrt(${formatExpression(expression.operand)})`;
+      }
+      const operand = wrap(expression.operand, precedenceOf(expression.operand) < POSTFIX_PRECEDENCE);
+      return expression.name === 'factorial' ? `${operand}!` : `${operand}%`;
+    }
+
+    case 'binary': {
+      const precedence = PRECEDENCE[expression.operator];
+      const rightAssociative = expression.operator === '^';
+      const left = wrap(
+        expression.left,
+        precedenceOf(expression.left) < precedence || (rightAssociative && precedenceOf(expression.left) <= precedence)
+      );
+      const right = wrap(
+        expression.right,
+        precedenceOf(expression.right) < precedence || (!rightAssociative && precedenceOf(expression.right) === precedence)
+      );
+      return rightAssociative ? `${left}^${right}` : `${left} ${expression.operator} ${right}`;
+    }
+
+    case 'comparison':
+      return `${formatExpression(expression.left)} ${expression.comparator} ${formatExpression(expression.right)}`;
+
+    case 'choice':
+      return `${expression.name}(${expression.options.map(formatExpression).join(', ')})`;
+  }
+}
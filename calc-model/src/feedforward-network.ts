@@ -0,0 +1,119 @@
+import * as brain from 'brain.js';
+import { TextPreprocessor, TrainingExample } from './preprocessor';
+import {
+  createOutputEncoding,
+  DEFAULT_OUTPUT_ENCODING,
+  LEGACY_OUTPUT_ENCODING,
+  NetworkOutput,
+  OutputEncoding,
+  OutputEncodingConfig,
+} from './output-encoding';
+import { CalculatorNetwork, NetworkConfig, NetworkRun, NetworkTrainingOptions, NetworkTrainingResult } from './calculator-network';
+import { createTokenizer, DEFAULT_TOKENIZER, fitTokenizer, Tokenizer, TokenizerConfig } from './tokenizer';
+
+// Model file fields written by the feed-forward network. Files without
+// `network` are raw brain.js weights from before output encodings were
+// recorded; files without `tokenizer` predate tokenizers and used scaled chars.
+export interface SavedFeedForward {
+  outputEncoding: OutputEncodingConfig;
+  tokenizer?: TokenizerConfig;
+  network: brain.INeuralNetworkJSON;
+}
+
+export const FEEDFORWARD_DEFAULTS: NetworkConfig = {
+  hiddenLayers: [15, 10], // Simpler architecture for better learning
+  activation: 'sigmoid',
+  learningRate: 0.5,
+  iterations: 3000,
+};
+
+export class FeedForwardNetwork implements CalculatorNetwork {
+  readonly architecture = 'feedforward';
+  readonly config: NetworkConfig;
+  private network: brain.NeuralNetwork;
+  private outputEncoding: OutputEncoding;
+  private inputTokenizer: Tokenizer;
+
+  constructor(
+    config: Partial<NetworkConfig> = {},
+    outputEncoding: OutputEncodingConfig = DEFAULT_OUTPUT_ENCODING,
+    tokenizer: TokenizerConfig = DEFAULT_TOKENIZER
+  ) {
+    this.config = { ...FEEDFORWARD_DEFAULTS, ...config };
+    this.outputEncoding = createOutputEncoding(outputEncoding);
+    this.inputTokenizer = createTokenizer(tokenizer);
+    this.network = new brain.NeuralNetwork({
+      hiddenLayers: this.config.hiddenLayers,
+      activation: this.config.activation as brain.NeuralNetworkActivation,
+    });
+  }
+
+  get tokenizer(): Tokenizer {
+    return this.inputTokenizer;
+  }
+
+  train(examples: TrainingExample[], options: NetworkTrainingOptions = {}): NetworkTrainingResult {
+    // A vocabulary tokenizer learns its tokens from this training set. Resumed
+    // training keeps the fitted one, since the weights expect its inputs.
+    const expressions = examples.map((example) => TextPreprocessor.preprocess(example.input));
+    if (!options.resume) {
+      this.inputTokenizer = fitTokenizer(this.inputTokenizer.config, expressions);
+    }
+
+    // Convert training data to neural network format
+    const networkData = examples.map((example, index) => ({
+      input: this.inputTokenizer.encode(expressions[index]),
+      output: this.outputEncoding.encode(example.output), // Use object format for brain.js v1.6.1
+    }));
+
+    if (options.preview ?? true) {
+      console.log(`Output encoding: ${JSON.stringify(this.outputEncoding.config)}`);
+      console.log(`Tokenizer: ${this.inputTokenizer.config.type} (${this.inputTokenizer.size} inputs)`);
+
+      console.log(`Training with ${networkData.length} examples...`);
+      console.log('Sample training data:');
+      networkData.slice(0, 3).forEach((data, index) => {
+        console.log(
+          `${index + 1}. Input: "${examples[index].input}" -> Tokens: [${data.input
+            .slice(0, 5)
+            .join(', ')}...] -> Output: ${examples[index].output}`
+        );
+      });
+    }
+
+    return this.network.train(networkData, {
+      iterations: options.iterations ?? this.config.iterations,
+      errorThresh: 0.001,
+      log: options.log ?? true,
+      logPeriod: 200,
+      learningRate: this.config.learningRate,
+    });
+  }
+
+  run(input: string): NetworkRun {
+    const tokens = this.inputTokenizer.encode(TextPreprocessor.preprocess(input));
+    const output = this.network.run<NetworkOutput>(tokens);
+
+    return {
+      value: this.outputEncoding.decode(output),
+      sharpness: this.outputEncoding.sharpness(output),
+      tokens,
+      output,
+    };
+  }
+
+  toJSON(): SavedFeedForward {
+    return {
+      outputEncoding: this.outputEncoding.config,
+      tokenizer: this.inputTokenizer.config,
+      network: this.network.toJSON(),
+    };
+  }
+
+  fromJSON(json: SavedFeedForward | brain.INeuralNetworkJSON): void {
+    const saved: SavedFeedForward = 'network' in json ? json : { outputEncoding: LEGACY_OUTPUT_ENCODING, network: json };
+    this.network.fromJSON(saved.network);
+    this.outputEncoding = createOutputEncoding(saved.outputEncoding);
+    this.inputTokenizer = createTokenizer(saved.tokenizer ?? DEFAULT_TOKENIZER);
+  }
+}
@@ -0,0 +1,213 @@
+import * as brain from 'brain.js';
+import { TextPreprocessor, TrainingExample } from './preprocessor';
+import { CalculatorNetwork, NetworkConfig, NetworkRun, NetworkTrainingOptions, NetworkTrainingResult } from './calculator-network';
+import { NetworkOutput } from './output-encoding';
+import {
+  applyOperation,
+  deriveIntent,
+  expressionTokens,
+  isNumberToken,
+  LabeledIntent,
+  Operation,
+  OperandRole,
+  operandCount,
+  OPERATIONS,
+} from './intent';
+
+const NUMBER_TOKEN = '<number>';
+const START_TOKEN = '<start>';
+const END_TOKEN = '<end>';
+
+// Model file fields written by the intent network
+export interface SavedIntent {
+  classifierVocabulary: string[];
+  taggerVocabulary: string[];
+  classifier: brain.INeuralNetworkJSON;
+  tagger: brain.INeuralNetworkJSON;
+}
+
+function oneHot(vocabulary: string[], present: string[]): number[] {
+  return vocabulary.map((word) => (present.includes(word) ? 1 : 0));
+}
+
+function argmax(output: NetworkOutput, keys: string[]): { key: string; score: number } {
+  return keys.reduce(
+    (best, key) => ((output[key] ?? 0) > best.score ? { key, score: output[key] ?? 0 } : best),
+    { key: keys[0], score: -Infinity }
+  );
+}
+
+// Shared by the classifier and the tagger
+export const INTENT_DEFAULTS: NetworkConfig = {
+  hiddenLayers: [16],
+  activation: 'sigmoid',
+  learningRate: 0.3,
+  iterations: 1000,
+};
+
+// Instead of regressing the answer, one network classifies the operation and a
+// second tags which numbers in the preprocessed text are operand A and B. The
+// answer is then computed exactly from those.
+export class IntentNetwork implements CalculatorNetwork {
+  readonly architecture = 'intent';
+  readonly config: NetworkConfig;
+  private classifier: brain.NeuralNetwork;
+  private tagger: brain.NeuralNetwork;
+  private classifierVocabulary: string[] = [];
+  private taggerVocabulary: string[] = [];
+
+  constructor(config: Partial<NetworkConfig> = {}) {
+    this.config = { ...INTENT_DEFAULTS, ...config };
+    const options = {
+      hiddenLayers: this.config.hiddenLayers,
+      activation: this.config.activation as brain.NeuralNetworkActivation,
+    };
+    this.classifier = new brain.NeuralNetwork(options);
+    this.tagger = new brain.NeuralNetwork(options);
+  }
+
+  train(examples: TrainingExample[], options: NetworkTrainingOptions = {}): NetworkTrainingResult {
+    const labeledExamples = examples
+      .map((example) => ({ example, intent: deriveIntent(example) }))
+      .filter((entry): entry is { example: TrainingExample; intent: LabeledIntent } => entry.intent !== null);
+
+    const preview = options.preview ?? true;
+    if (preview) {
+      console.log(`Derived operation and operands for ${labeledExamples.length}/${examples.length} examples`);
+      console.log('Sample training data:');
+      labeledExamples.slice(0, 3).forEach(({ example, intent }, index) => {
+        console.log(`${index + 1}. Input: "${example.input}" -> ${intent.operation}(${intent.operands.join(', ')})`);
+      });
+    }
+
+    // Resumed training keeps the feature vocabularies the weights were built on
+    if (!options.resume) {
+      this.classifierVocabulary = Array.from(
+        new Set(labeledExamples.flatMap(({ example, intent }) => this.classifierWords(example.input, intent.tokens)))
+      ).sort();
+      this.taggerVocabulary = Array.from(
+        new Set([NUMBER_TOKEN, START_TOKEN, END_TOKEN, ...labeledExamples.flatMap(({ intent }) => intent.tokens.filter((t) => !isNumberToken(t)))])
+      ).sort();
+    }
+
+    const trainingOptions = {
+      iterations: options.iterations ?? this.config.iterations,
+      errorThresh: 0.005,
+      log: options.log ?? true,
+      logPeriod: 200,
+      learningRate: this.config.learningRate,
+    };
+
+    if (preview) {
+      console.log(`Training operation classifier (${this.classifierVocabulary.length} word features)...`);
+    }
+    const classifierResult = this.classifier.train(
+      labeledExamples.map(({ example, intent }) => ({
+        input: this.classifierFeatures(example.input, intent.tokens),
+        output: { [intent.operation]: 1 },
+      })),
+      trainingOptions
+    );
+
+    if (preview) {
+      console.log(`Training operand tagger (${this.taggerVocabulary.length} context tokens)...`);
+    }
+    const taggerResult = this.tagger.train(
+      labeledExamples.flatMap(({ intent }) =>
+        Object.entries(intent.roles).map(([index, role]) => ({
+          input: this.taggerFeatures(intent.tokens, Number(index), intent.operation),
+          output: { [role]: 1 },
+        }))
+      ),
+      trainingOptions
+    );
+
+    return {
+      error: Math.max(classifierResult.error, taggerResult.error),
+      iterations: classifierResult.iterations + taggerResult.iterations,
+    };
+  }
+
+  run(input: string): NetworkRun {
+    const tokens = expressionTokens(TextPreprocessor.preprocess(input));
+    const numberIndexes = tokens.map((token, index) => (isNumberToken(token) ? index : -1)).filter((index) => index >= 0);
+
+    const classifierOutput = this.classifier.run<NetworkOutput>(this.classifierFeatures(input, tokens));
+    const classified = argmax(classifierOutput, OPERATIONS);
+    const operation = classified.key as Operation;
+    if (numberIndexes.length < operandCount(operation)) {
+      return { value: NaN, sharpness: 0, intent: { operation, operands: [] }, output: { classifier: classifierOutput } };
+    }
+
+    const tags = numberIndexes.map((index) => ({
+      index,
+      output: this.tagger.run<NetworkOutput>(this.taggerFeatures(tokens, index, operation)),
+    }));
+    const tagger = tags.map((tag) => ({ number: tokens[tag.index], roles: tag.output }));
+
+    // Each role goes to the number that scores highest for it; a number can
+    // only fill one role
+    const operands: number[] = [];
+    let sharpness = classified.score;
+    const roles: OperandRole[] = operandCount(operation) === 1 ? ['a'] : ['a', 'b'];
+    const remaining = [...tags];
+    roles.forEach((role) => {
+      remaining.sort((left, right) => (right.output[role] ?? 0) - (left.output[role] ?? 0));
+      const picked = remaining.shift()!;
+      operands.push(parseFloat(tokens[picked.index]));
+      sharpness = Math.min(sharpness, picked.output[role] ?? 0);
+    });
+
+    return {
+      value: applyOperation(operation, operands),
+      sharpness: Math.max(0, Math.min(1, sharpness)),
+      intent: { operation, operands },
+      output: { classifier: classifierOutput, tagger },
+    };
+  }
+
+  // Words from the raw query plus whatever words and symbols survive
+  // preprocessing, so "8 square" and "8^2" both carry their signal
+  private classifierWords(input: string, tokens: string[]): string[] {
+    const rawWords = input.toLowerCase().match(/[a-z]+/g) ?? [];
+    return [...rawWords, ...tokens.filter((token) => !isNumberToken(token))];
+  }
+
+  private classifierFeatures(input: string, tokens: string[]): number[] {
+    return oneHot(this.classifierVocabulary, this.classifierWords(input, tokens));
+  }
+
+  private taggerFeatures(tokens: string[], index: number, operation: Operation): number[] {
+    const contextToken = (position: number, edge: string) => {
+      if (position < 0 || position >= tokens.length) return edge;
+      return isNumberToken(tokens[position]) ? NUMBER_TOKEN : tokens[position];
+    };
+    const numberPositions = tokens.map((token, i) => (isNumberToken(token) ? i : -1)).filter((i) => i >= 0);
+    const order = numberPositions.indexOf(index);
+
+    return [
+      ...oneHot(this.taggerVocabulary, [contextToken(index - 1, START_TOKEN)]),
+      ...oneHot(this.taggerVocabulary, [contextToken(index + 1, END_TOKEN)]),
+      order === 0 ? 1 : 0,
+      order === numberPositions.length - 1 ? 1 : 0,
+      numberPositions.length > 2 ? 1 : 0,
+      ...OPERATIONS.map((candidate) => (candidate === operation ? 1 : 0)),
+    ];
+  }
+
+  toJSON(): SavedIntent {
+    return {
+      classifierVocabulary: this.classifierVocabulary,
+      taggerVocabulary: this.taggerVocabulary,
+      classifier: this.classifier.toJSON(),
+      tagger: this.tagger.toJSON(),
+    };
+  }
+
+  fromJSON(json: SavedIntent): void {
+    this.classifierVocabulary = json.classifierVocabulary;
+    this.taggerVocabulary = json.taggerVocabulary;
+    this.classifier.fromJSON(json.classifier);
+    this.tagger.fromJSON(json.tagger);
+  }
+}
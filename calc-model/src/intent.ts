@@ -0,0 +1,150 @@
+import { operatorCount, variablesOf } from './expression';
+import { TextPreprocessor, TrainingExample } from './preprocessor';
+import { QueryParser } from './query-parser';
+
+export type Operation = 'add' | 'subtract' | 'multiply' | 'divide' | 'power' | 'square';
+
+export const OPERATIONS: Operation[] = ['add', 'subtract', 'multiply', 'divide', 'power', 'square'];
+
+export type OperandRole = 'a' | 'b' | 'none';
+
+export interface Intent {
+  operation: Operation;
+  operands: number[]; // [a] for square, [a, b] otherwise
+}
+
+// An intent recovered from a training example, with the role of every number
+// token in the preprocessed text so the operand tagger can learn from it
+export interface LabeledIntent extends Intent {
+  tokens: string[];
+  roles: { [tokenIndex: number]: OperandRole };
+}
+
+const operationSymbols: { [operation in Operation]: string } = {
+  add: '+',
+  subtract: '-',
+  multiply: '*',
+  divide: '/',
+  power: '^',
+  square: '^2',
+};
+
+export function applyOperation(operation: Operation, operands: number[]): number {
+  const [a, b] = operands;
+  switch (operation) {
+    case 'add':
+      return a + b;
+    case 'subtract':
+      return a - b;
+    case 'multiply':
+      return a * b;
+    case 'divide':
+      return a / b;
+    case 'power':
+      return Math.pow(a, b);
+    case 'square':
+      return a * a;
+  }
+}
+
+export function operandCount(operation: Operation): number {
+  return operation === 'square' ? 1 : 2;
+}
+
+// Splits preprocessed text into numbers, leftover words and operator symbols.
+// A "-" with no number or ")" before it is a sign and stays on its number.
+export function expressionTokens(expression: string): string[] {
+  return expression.match(/(?<![\d)]\s*)-\d+(?:\.\d+)?|\d+(?:\.\d+)?|[a-z]+|[^\s\w]/g) ?? [];
+}
+
+export function isNumberToken(token: string): boolean {
+  return /^-?\d/.test(token);
+}
+
+// True when the query parses to more than one operation ("add 3 to 5 then
+// multiply by 2"), which no single intent describes
+export function isCompound(input: string): boolean {
+  const parsed = QueryParser.parse(TextPreprocessor.normalize(input));
+  return parsed !== null && operatorCount(parsed) > 1;
+}
+
+// True when the query asks a yes/no question or picks one of several values
+// ("is 7 greater than 5", "which is bigger, 3 or 4"), which no arithmetic
+// intent describes. Equations are comparisons too.
+export function isComparison(input: string): boolean {
+  const parsed = QueryParser.parse(TextPreprocessor.normalize(input));
+  return parsed !== null && (parsed.type === 'comparison' || parsed.type === 'choice');
+}
+
+// True when the query has an unknown to solve for ("what number times 4 is 20")
+export function isEquation(input: string): boolean {
+  const parsed = QueryParser.parse(TextPreprocessor.normalize(input));
+  return parsed !== null && variablesOf(parsed).length > 0;
+}
+
+// Works out which operation and operands produce `example.output`, trying
+// operations whose symbol appears in the preprocessed text first. Returns null
+// for compound queries, comparisons and when no single operation over the
+// numbers in the query explains the output.
+export function deriveIntent(example: TrainingExample): LabeledIntent | null {
+  if (isCompound(example.input) || isComparison(example.input)) return null;
+
+  const expression = TextPreprocessor.preprocess(example.input);
+  const tokens = expressionTokens(expression);
+  const numberIndexes = tokens.map((token, index) => (isNumberToken(token) ? index : -1)).filter((index) => index >= 0);
+  if (numberIndexes.length === 0) return null;
+
+  const saysSquare = /\bsquared?\b/.test(example.input.toLowerCase());
+  const present = (operation: Operation) => (expression.includes(operationSymbols[operation]) ? 0 : 1);
+  const candidates: Operation[] = OPERATIONS.filter((operation) => operation !== 'square').sort(
+    (left, right) => present(left) - present(right)
+  );
+  // "8 square" is also power(8, 2); the wording decides
+  if (saysSquare) candidates.unshift('square');
+
+  const matches = (operation: Operation, operands: number[]) =>
+    Math.abs(applyOperation(operation, operands) - example.output) < 1e-9;
+
+  for (const operation of candidates) {
+    if (operandCount(operation) === 1) {
+      for (const index of numberIndexes) {
+        const a = parseFloat(tokens[index]);
+        if (matches(operation, [a])) {
+          return labeled(tokens, numberIndexes, operation, [a], { [index]: 'a' });
+        }
+      }
+      continue;
+    }
+
+    // Reading order first, then swapped ("subtract 4 from 10")
+    for (const i of numberIndexes) {
+      for (const j of numberIndexes) {
+        if (j <= i) continue;
+        const first = parseFloat(tokens[i]);
+        const second = parseFloat(tokens[j]);
+        if (matches(operation, [first, second])) {
+          return labeled(tokens, numberIndexes, operation, [first, second], { [i]: 'a', [j]: 'b' });
+        }
+        if (matches(operation, [second, first])) {
+          return labeled(tokens, numberIndexes, operation, [second, first], { [j]: 'a', [i]: 'b' });
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+function labeled(
+  tokens: string[],
+  numberIndexes: number[],
+  operation: Operation,
+  operands: number[],
+  operandRoles: { [tokenIndex: number]: OperandRole }
+): LabeledIntent {
+  const roles: { [tokenIndex: number]: OperandRole } = {};
+  numberIndexes.forEach((index) => {
+    roles[index] = operandRoles[index] ?? 'none';
+  });
+  return { operation, operands, tokens, roles };
+}
@@ -0,0 +1,60 @@
+import { english } from './locales/en';
+import { spanish } from './locales/es';
+import { hindi } from './locales/hi';
+
+// Locale packs teach the preprocessor another language by translating queries
+// into the English that NumberParser and QueryParser read. Pack words are
+// written without accents; queries are folded to plain letters before lookup.
+
+export type LocaleCode = 'en' | 'es' | 'hi';
+
+// 'auto' picks the pack whose words a query uses, see TextPreprocessor.detectLocale
+export type LocaleOption = LocaleCode | 'auto';
+
+export interface LocalePattern {
+  pattern: RegExp;
+  replacement: string;
+}
+
+export interface LocalePack {
+  code: LocaleCode;
+  name: string;
+  // Number words and their values; translated to English number words so
+  // "treinta y cinco" and "do sau" compose like "thirty five" and "two hundred"
+  numberWords: { [word: string]: number };
+  // Operator phrases and what the grammar should read instead, an English
+  // phrase or a symbol. English maps its own words to symbols for phrasings
+  // the grammar does not cover.
+  operatorWords: { [phrase: string]: string };
+  // Removed from the start of a query: "what is", "cuanto es"
+  questionPhrases: string[];
+  // Removed anywhere in a query: "please", "por favor"
+  fillerPhrases: string[];
+  // Rewrites for word orders the English grammar has no rule for, applied
+  // before words are translated: "resta 4 de 10" -> "subtract 4 from 10"
+  patterns: LocalePattern[];
+}
+
+export const ENGLISH: LocalePack = english;
+
+export const LOCALE_PACKS: LocalePack[] = [english, spanish, hindi];
+
+export const LOCALE_CODES: LocaleCode[] = LOCALE_PACKS.map((pack) => pack.code);
+
+export function getLocalePack(code: LocaleCode): LocalePack {
+  const pack = LOCALE_PACKS.find((candidate) => candidate.code === code);
+  if (!pack) {
+    throw new Error(`Unknown locale "${code}", expected one of ${LOCALE_CODES.join(', ')}`);
+  }
+  return pack;
+}
+
+export function isLocaleOption(value: string): value is LocaleOption {
+  return value === 'auto' || LOCALE_CODES.includes(value as LocaleCode);
+}
+
+// Every single word the pack knows, for scoring which language a query is in
+export function localeVocabulary(pack: LocalePack): Set<string> {
+  const phrases = [...Object.keys(pack.numberWords), ...Object.keys(pack.operatorWords), ...pack.questionPhrases, ...pack.fillerPhrases];
+  return new Set(phrases.flatMap((phrase) => phrase.split(' ')));
+}
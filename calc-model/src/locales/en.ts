@@ -0,0 +1,35 @@
+import { LocalePack } from '../locale';
+import { NUMBER_WORDS } from '../number-parser';
+
+// The grammar's own language: English queries are never translated, so
+// `operatorWords` only feeds the word-substitution fallback
+export const english: LocalePack = {
+  code: 'en',
+  name: 'English',
+  numberWords: NUMBER_WORDS,
+  operatorWords: {
+    plus: '+',
+    add: '+',
+    added: '+',
+    sum: '+',
+    into: '+',
+    minus: '-',
+    subtract: '-',
+    take: '-',
+    from: '-',
+    times: '*',
+    multiply: '*',
+    multiplied: '*',
+    by: '*',
+    divide: '/',
+    divided: '/',
+    over: '/',
+    power: '^',
+    raised: '^',
+    square: '^2',
+    squared: '^2',
+  },
+  questionPhrases: ['what is', 'what will i get if', "what's", 'whats', 'calculate', 'find'],
+  fillerPhrases: ['please', 'kindly'],
+  patterns: [],
+};
@@ -0,0 +1,138 @@
+import { LocalePack } from '../locale';
+
+const TENS = 'treinta|cuarenta|cincuenta|sesenta|setenta|ochenta|noventa';
+const UNITS = 'uno|un|una|dos|tres|cuatro|cinco|seis|siete|ocho|nueve';
+
+export const spanish: LocalePack = {
+  code: 'es',
+  name: 'Español',
+  numberWords: {
+    cero: 0,
+    uno: 1,
+    un: 1,
+    una: 1,
+    dos: 2,
+    tres: 3,
+    cuatro: 4,
+    cinco: 5,
+    seis: 6,
+    siete: 7,
+    ocho: 8,
+    nueve: 9,
+    diez: 10,
+    once: 11,
+    doce: 12,
+    trece: 13,
+    catorce: 14,
+    quince: 15,
+    dieciseis: 16,
+    diecisiete: 17,
+    dieciocho: 18,
+    diecinueve: 19,
+    veinte: 20,
+    veintiuno: 21,
+    veintiun: 21,
+    veintidos: 22,
+    veintitres: 23,
+    veinticuatro: 24,
+    veinticinco: 25,
+    veintiseis: 26,
+    veintisiete: 27,
+    veintiocho: 28,
+    veintinueve: 29,
+    treinta: 30,
+    cuarenta: 40,
+    cincuenta: 50,
+    sesenta: 60,
+    setenta: 70,
+    ochenta: 80,
+    noventa: 90,
+    cien: 100,
+    ciento: 100,
+    doscientos: 200,
+    trescientos: 300,
+    cuatrocientos: 400,
+    quinientos: 500,
+    seiscientos: 600,
+    setecientos: 700,
+    ochocientos: 800,
+    novecientos: 900,
+    mil: 1e3,
+    millon: 1e6,
+    millones: 1e6,
+  },
+  operatorWords: {
+    mas: 'plus',
+    y: 'and',
+    con: 'with',
+    menos: 'minus',
+    negativo: 'negative',
+    por: 'times',
+    veces: 'times',
+    'multiplicado por': 'multiplied by',
+    'dividido por': 'divided by',
+    'dividido entre': 'divided by',
+    entre: 'divided by',
+    sobre: 'over',
+    modulo: 'mod',
+    'por ciento': '%',
+    'elevado a la potencia': 'raised to the power of',
+    'elevado a la': 'raised to the power of',
+    'elevado a': 'raised to',
+    'a la potencia': 'to the power of',
+    'al cuadrado': 'squared',
+    'al cubo': 'cubed',
+    'raiz cuadrada de': 'square root of',
+    'raiz cuadrada': 'square root',
+    'factorial de': 'factorial of',
+    'el cuadrado de': 'the square of',
+    'el cubo de': 'the cube of',
+    suma: 'add',
+    sumar: 'add',
+    anade: 'add',
+    'la suma de': 'the sum of',
+    'el producto de': 'the product of',
+    'la diferencia entre': 'the difference between',
+    'el cociente de': 'the quotient of',
+    multiplica: 'multiply',
+    divide: 'divide',
+    // "luego multiplica por 2"
+    'multiplica por': 'multiply by',
+    'divide entre': 'divide by',
+    'divide por': 'divide by',
+    resta: 'subtract',
+    'el doble de': 'two times',
+    'el triple de': 'three times',
+    'la mitad de': 'half of',
+    mitad: 'half',
+    medio: 'half',
+    tercio: 'third',
+    tercios: 'thirds',
+    cuarto: 'quarter',
+    cuartos: 'quarters',
+    punto: 'point',
+    a: 'to',
+    de: 'of',
+    luego: 'then',
+    despues: 'then',
+    'y luego': 'then',
+    'y despues': 'then',
+    el: 'the',
+    la: 'the',
+    resultado: 'result',
+    lo: 'it',
+  },
+  questionPhrases: ['cuanto es', 'cuanto son', 'cuanto da', 'que es', 'cual es', 'calcula', 'calcular', 'dime'],
+  fillerPhrases: ['por favor'],
+  patterns: [
+    // "treinta y cinco" is one number, not 30 + 5
+    { pattern: new RegExp(`\\b(${TENS}) y (${UNITS})\\b`, 'g'), replacement: '$1 $2' },
+    // "resta 4 de 10" subtracts 4 from 10
+    { pattern: /\b(resta|restar|quita|quitar) (.+?) (de|a) /g, replacement: 'subtract $2 from ' },
+    // "multiplica 3 por 4", "divide 10 entre 2": the verb takes "by"
+    { pattern: /\b(multiplica|multiplicar) (.+?) (por|con|y) /g, replacement: 'multiply $2 by ' },
+    { pattern: /\b(divide|dividir) (.+?) (entre|por) /g, replacement: 'divide $2 by ' },
+    // "eleva 2 a 3"
+    { pattern: /\b(eleva|elevar) (.+?) a (la potencia )?/g, replacement: 'raise $2 to ' },
+  ],
+};
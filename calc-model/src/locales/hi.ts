@@ -0,0 +1,172 @@
+import { LocalePack } from '../locale';
+
+// Romanized Hindi. Spellings vary from writer to writer; the common ones are
+// listed, and every number up to 100 has its own word.
+export const hindi: LocalePack = {
+  code: 'hi',
+  name: 'हिन्दी (romanized)',
+  numberWords: {
+    shunya: 0,
+    ek: 1,
+    do: 2,
+    teen: 3,
+    tin: 3,
+    char: 4,
+    chaar: 4,
+    paanch: 5,
+    panch: 5,
+    chhe: 6,
+    chhah: 6,
+    che: 6,
+    saat: 7,
+    sat: 7,
+    aath: 8,
+    ath: 8,
+    nau: 9,
+    das: 10,
+    gyarah: 11,
+    gyara: 11,
+    barah: 12,
+    bara: 12,
+    terah: 13,
+    tera: 13,
+    chaudah: 14,
+    chauda: 14,
+    pandrah: 15,
+    pandra: 15,
+    solah: 16,
+    sola: 16,
+    satrah: 17,
+    satra: 17,
+    atharah: 18,
+    athara: 18,
+    unnis: 19,
+    bees: 20,
+    bis: 20,
+    ikkis: 21,
+    bais: 22,
+    teis: 23,
+    chaubis: 24,
+    pachis: 25,
+    chhabbis: 26,
+    sattais: 27,
+    atthais: 28,
+    untis: 29,
+    tees: 30,
+    tis: 30,
+    ikattis: 31,
+    battis: 32,
+    taintis: 33,
+    chautis: 34,
+    paintis: 35,
+    chhattis: 36,
+    saintis: 37,
+    adtis: 38,
+    untalis: 39,
+    chalis: 40,
+    iktalis: 41,
+    bayalis: 42,
+    taintalis: 43,
+    chavalis: 44,
+    paintalis: 45,
+    chhiyalis: 46,
+    saintalis: 47,
+    adtalis: 48,
+    unchas: 49,
+    pachas: 50,
+    ikyavan: 51,
+    bavan: 52,
+    tirpan: 53,
+    chauvan: 54,
+    pachpan: 55,
+    chhappan: 56,
+    sattavan: 57,
+    atthavan: 58,
+    unsath: 59,
+    saath: 60,
+    iksath: 61,
+    basath: 62,
+    tirsath: 63,
+    chaunsath: 64,
+    painsath: 65,
+    chhiyasath: 66,
+    sadsath: 67,
+    adsath: 68,
+    unhattar: 69,
+    sattar: 70,
+    ikhattar: 71,
+    bahattar: 72,
+    tihattar: 73,
+    chauhattar: 74,
+    pachhattar: 75,
+    chhihattar: 76,
+    sathattar: 77,
+    athhattar: 78,
+    unasi: 79,
+    assi: 80,
+    ikyasi: 81,
+    bayasi: 82,
+    tirasi: 83,
+    chaurasi: 84,
+    pachasi: 85,
+    chhiyasi: 86,
+    sattasi: 87,
+    athasi: 88,
+    navasi: 89,
+    nabbe: 90,
+    ikyanve: 91,
+    banve: 92,
+    tiranve: 93,
+    chauranve: 94,
+    pachanve: 95,
+    chhiyanve: 96,
+    sattanve: 97,
+    atthanve: 98,
+    ninyanve: 99,
+    sau: 100,
+    hazaar: 1e3,
+    hazar: 1e3,
+    lakh: 1e5,
+  },
+  operatorWords: {
+    jama: 'plus',
+    jod: 'plus',
+    aur: 'and',
+    ghata: 'minus',
+    guna: 'times',
+    gunaa: 'times',
+    bhaag: 'divided by',
+    bhag: 'divided by',
+    'ki ghaat': 'to the power of',
+    'ka varg': 'squared',
+    'ka ghan': 'cubed',
+    'ka factorial': 'factorial',
+    dashamlav: 'point',
+    phir: 'then',
+    uska: 'it',
+    use: 'it',
+    aadha: 'half',
+  },
+  questionPhrases: [],
+  fillerPhrases: [
+    'kitne hote hain',
+    'kitna hota hai',
+    'kitna hoga',
+    'kitna hai',
+    'kitne hai',
+    'kya hoga',
+    'kya hai',
+    'bataiye',
+    'batao',
+    'kripya',
+  ],
+  // Hindi puts the verb last: "paanch aur teen jodo" adds 5 and 3
+  patterns: [
+    { pattern: /^(.+?) ka vargmool$/, replacement: 'square root of $1' },
+    { pattern: /^(.+?) (mein|me) se (.+?) (ghatao|ghata do|ghataiye|nikalo|kam karo)$/, replacement: 'subtract $3 from $1' },
+    { pattern: /^(.+?) aur (.+?) (ko )?(jodo|jod do|jodiye|ka yog|ka jod)$/, replacement: 'the sum of $1 and $2' },
+    { pattern: /^(.+?) aur (.+?) ka (guna|gunaa|gunanfal)$/, replacement: 'the product of $1 and $2' },
+    { pattern: /^(.+?) ko (.+?) se (guna karo|guna kijiye)$/, replacement: 'multiply $1 by $2' },
+    { pattern: /^(.+?) ko (.+?) se (bhaag do|bhaag karo|bhag do|bhaag dijiye)$/, replacement: 'divide $1 by $2' },
+  ],
+};
@@ -0,0 +1,107 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModelArchitecture, NetworkConfig, SavedModel } from './calculator-network';
+import { TrainingExample } from './preprocessor';
+import { TokenizerType } from './tokenizer';
+
+// Scores on examples kept out of training, from the evaluation harness
+export interface HeldOutMetrics {
+  testSize: number;
+  exactMatch: number; // 0-1, final answers
+  networkExactMatch: number; // 0-1, network output alone
+}
+
+export interface ModelMetrics {
+  exactMatch: number; // 0-1, final answers on the training data
+  networkExactMatch: number; // 0-1, network output alone
+  meanAbsoluteError: number | null;
+  heldOut?: HeldOutMetrics; // Set when trained with a test split
+}
+
+export interface ModelManifest extends NetworkConfig {
+  id: string;
+  createdAt: string;
+  architecture: ModelArchitecture;
+  trainedIterations: number;
+  finalError: number;
+  datasetHash: string;
+  datasetSize: number;
+  tokenizerVersion: number;
+  tokenizer?: TokenizerType; // Feed-forward only
+  metrics: ModelMetrics;
+  parentVersion?: string; // Set when fine-tuned from another version
+  correctionWeight?: number; // Times each correction was trained on, when fine-tuned on corrections
+  validationError?: number; // Best held-out error, when trained with early stopping
+}
+
+// 'latest' and 'best' are resolved per architecture; anything else is an id
+export type ModelVersion = 'latest' | 'best' | string;
+
+export const DEFAULT_REGISTRY_PATH = path.join(__dirname, '..', 'models');
+
+const MODEL_FILE = 'model.json';
+const MANIFEST_FILE = 'manifest.json';
+
+// Stable fingerprint of a dataset's rows, so models trained on the same data
+// can be recognised
+export function hashDataset(examples: TrainingExample[]): string {
+  const rows = examples.map((example) => [example.input, example.output]);
+  return crypto.createHash('sha256').update(JSON.stringify(rows)).digest('hex').slice(0, 12);
+}
+
+// Each trained model lives in models/<id>/ as model.json (weights) plus
+// manifest.json (how it was trained and how well it did)
+export class ModelRegistry {
+  constructor(private readonly root: string = DEFAULT_REGISTRY_PATH) {}
+
+  list(architecture?: ModelArchitecture): ModelManifest[] {
+    if (!fs.existsSync(this.root)) return [];
+
+    return fs
+      .readdirSync(this.root)
+      .filter((entry) => fs.existsSync(path.join(this.root, entry, MANIFEST_FILE)))
+      .map((entry) => JSON.parse(fs.readFileSync(path.join(this.root, entry, MANIFEST_FILE), 'utf8')) as ModelManifest)
+      .filter((manifest) => !architecture || manifest.architecture === architecture)
+      .sort((left, right) => left.createdAt.localeCompare(right.createdAt));
+  }
+
+  resolve(version: ModelVersion, architecture?: ModelArchitecture): ModelManifest | null {
+    const manifests = this.list(version === 'latest' || version === 'best' ? architecture : undefined);
+
+    if (version === 'latest') {
+      return manifests[manifests.length - 1] ?? null;
+    }
+    if (version === 'best') {
+      // Highest network-only accuracy on held-out examples, newest first on
+      // ties. Symbolic evaluation answers training queries whatever the
+      // weights, so final answers on training data cannot tell versions apart.
+      // Versions saved without a test split rank last.
+      const score = (manifest: ModelManifest) => manifest.metrics.heldOut?.networkExactMatch ?? -1;
+      return [...manifests].reverse().reduce<ModelManifest | null>((best, manifest) => {
+        return !best || score(manifest) > score(best) ? manifest : best;
+      }, null);
+    }
+    return manifests.find((manifest) => manifest.id === version) ?? null;
+  }
+
+  readModel(id: string): SavedModel {
+    return JSON.parse(fs.readFileSync(path.join(this.root, id, MODEL_FILE), 'utf8'));
+  }
+
+  save(modelData: SavedModel, details: Omit<ModelManifest, 'id' | 'createdAt'>): ModelManifest {
+    const createdAt = new Date();
+    const stamp = createdAt.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+    let id = `${stamp}-${details.architecture}`;
+    for (let suffix = 2; fs.existsSync(path.join(this.root, id)); suffix++) {
+      id = `${stamp}-${details.architecture}-${suffix}`;
+    }
+
+    const manifest: ModelManifest = { id, createdAt: createdAt.toISOString(), ...details };
+    const directory = path.join(this.root, id);
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(path.join(directory, MODEL_FILE), JSON.stringify(modelData, null, 2));
+    fs.writeFileSync(path.join(directory, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+    return manifest;
+  }
+}
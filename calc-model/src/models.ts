@@ -0,0 +1,114 @@
+import { getArchitectureFlag, getFlag, getPositionalArgs } from './cli';
+import { ModelManifest, ModelRegistry } from './model-registry';
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function listVersions(registry: ModelRegistry, manifests: ModelManifest[]): void {
+  const latest = new Set(
+    manifests.map((manifest) => registry.resolve('latest', manifest.architecture)?.id).filter(Boolean)
+  );
+  const best = new Set(manifests.map((manifest) => registry.resolve('best', manifest.architecture)?.id).filter(Boolean));
+
+  console.log(
+    [
+      'id'.padEnd(28),
+      'arch'.padEnd(11),
+      'hidden'.padEnd(8),
+      'lr'.padStart(5),
+      'iters'.padStart(6),
+      'error'.padStart(8),
+      'dataset'.padEnd(18),
+      'exact'.padStart(7),
+      'network'.padStart(8),
+      'held-out'.padStart(8),
+      '',
+    ].join(' ')
+  );
+
+  manifests.forEach((manifest) => {
+    const tags = [latest.has(manifest.id) ? 'latest' : '', best.has(manifest.id) ? 'best' : ''].filter(Boolean);
+    console.log(
+      [
+        manifest.id.padEnd(28),
+        manifest.architecture.padEnd(11),
+        manifest.hiddenLayers.join(',').padEnd(8),
+        String(manifest.learningRate).padStart(5),
+        String(manifest.trainedIterations).padStart(6),
+        manifest.finalError.toFixed(4).padStart(8),
+        `${manifest.datasetHash} (${manifest.datasetSize})`.padEnd(18),
+        percent(manifest.metrics.exactMatch).padStart(7),
+        percent(manifest.metrics.networkExactMatch).padStart(8),
+        (manifest.metrics.heldOut ? percent(manifest.metrics.heldOut.networkExactMatch) : 'n/a').padStart(8),
+        tags.length ? `← ${tags.join(', ')}` : '',
+      ].join(' ')
+    );
+  });
+}
+
+// Side-by-side view of every manifest field, marking the ones that differ
+function compareVersions(manifests: ModelManifest[]): void {
+  const fields: [string, (manifest: ModelManifest) => string][] = [
+    ['createdAt', (m) => m.createdAt],
+    ['architecture', (m) => m.architecture],
+    ['hiddenLayers', (m) => m.hiddenLayers.join(',')],
+    ['activation', (m) => m.activation],
+    ['learningRate', (m) => String(m.learningRate)],
+    ['iterations', (m) => `${m.trainedIterations}/${m.iterations}`],
+    ['finalError', (m) => m.finalError.toFixed(6)],
+    ['datasetHash', (m) => m.datasetHash],
+    ['datasetSize', (m) => String(m.datasetSize)],
+    ['tokenizerVersion', (m) => String(m.tokenizerVersion)],
+    ['tokenizer', (m) => m.tokenizer ?? 'n/a'],
+    ['parentVersion', (m) => m.parentVersion ?? 'n/a'],
+    ['validationError', (m) => (m.validationError === undefined ? 'n/a' : m.validationError.toFixed(6))],
+    ['exactMatch', (m) => percent(m.metrics.exactMatch)],
+    ['networkExactMatch', (m) => percent(m.metrics.networkExactMatch)],
+    ['heldOutTestSize', (m) => (m.metrics.heldOut ? String(m.metrics.heldOut.testSize) : 'n/a')],
+    ['heldOutExactMatch', (m) => (m.metrics.heldOut ? percent(m.metrics.heldOut.exactMatch) : 'n/a')],
+    ['heldOutNetworkExactMatch', (m) => (m.metrics.heldOut ? percent(m.metrics.heldOut.networkExactMatch) : 'n/a')],
+    ['meanAbsoluteError', (m) => (m.metrics.meanAbsoluteError === null ? 'n/a' : m.metrics.meanAbsoluteError.toFixed(3))],
+  ];
+
+  console.log(['field'.padEnd(24), ...manifests.map((manifest) => manifest.id.padEnd(28))].join(' '));
+  fields.forEach(([name, read]) => {
+    const values = manifests.map(read);
+    const differs = new Set(values).size > 1 ? ' *' : '';
+    console.log([name.padEnd(24), ...values.map((value) => value.padEnd(28))].join(' ') + differs);
+  });
+}
+
+async function main() {
+  console.log('🗂️  AI Calculator - Model Registry');
+  console.log('==================================');
+
+  const args = process.argv.slice(2);
+  const registry = new ModelRegistry();
+  const ids = getPositionalArgs(args);
+
+  if (ids.length > 0) {
+    const manifests = ids.map((id) => {
+      const manifest = registry.resolve(id, getArchitectureFlag(args));
+      if (!manifest) {
+        throw new Error(`Unknown model version "${id}"`);
+      }
+      return manifest;
+    });
+    compareVersions(manifests);
+    return;
+  }
+
+  const architecture = getFlag(args, 'model') ? getArchitectureFlag(args) : undefined;
+  const manifests = registry.list(architecture);
+  if (manifests.length === 0) {
+    console.log('No models saved yet. Train one with: pnpm run train');
+    return;
+  }
+  listVersions(registry, manifests);
+}
+
+main().catch((error) => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
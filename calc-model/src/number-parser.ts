@@ -0,0 +1,356 @@
+// Turns English number phrases into digits: cardinals ("thirty five", "one
+// hundred and two", "a dozen"), ordinals ("third"), simple fractions ("half of
+// 10", "two thirds of 9") and signs ("minus five", "negative 3").
+
+const UNITS: { [word: string]: number } = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+};
+
+const TENS: { [word: string]: number } = {
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+const SCALES: { [word: string]: number } = {
+  thousand: 1e3,
+  million: 1e6,
+  billion: 1e9,
+};
+
+const ORDINAL_UNITS: { [word: string]: number } = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+  sixth: 6,
+  seventh: 7,
+  eighth: 8,
+  ninth: 9,
+  tenth: 10,
+  eleventh: 11,
+  twelfth: 12,
+  thirteenth: 13,
+  fourteenth: 14,
+  fifteenth: 15,
+  sixteenth: 16,
+  seventeenth: 17,
+  eighteenth: 18,
+  nineteenth: 19,
+};
+
+const ORDINAL_TENS: { [word: string]: number } = {
+  twentieth: 20,
+  thirtieth: 30,
+  fortieth: 40,
+  fiftieth: 50,
+  sixtieth: 60,
+  seventieth: 70,
+  eightieth: 80,
+  ninetieth: 90,
+};
+
+const ORDINAL_SCALES: { [word: string]: number } = {
+  hundredth: 100,
+  thousandth: 1e3,
+  millionth: 1e6,
+};
+
+// Denominators for "a third", "two quarters of 8" and so on. "first" and
+// "second" are left out on purpose: "a second" is a unit of time.
+const FRACTIONS: { [word: string]: number } = {
+  half: 2,
+  halves: 2,
+  third: 3,
+  thirds: 3,
+  quarter: 4,
+  quarters: 4,
+  fourth: 4,
+  fourths: 4,
+  fifth: 5,
+  fifths: 5,
+  sixth: 6,
+  sixths: 6,
+  seventh: 7,
+  sevenths: 7,
+  eighth: 8,
+  eighths: 8,
+  ninth: 9,
+  ninths: 9,
+  tenth: 10,
+  tenths: 10,
+};
+
+// Every cardinal word with its value, for locale packs
+export const NUMBER_WORDS: { [word: string]: number } = { ...UNITS, ...TENS, hundred: 100, ...SCALES, dozen: 12 };
+
+const SYMBOLS = new Set(['+', '-', '*', '/', '^', '(']);
+
+type PhraseKind = 'start' | 'unit' | 'tens' | 'hundred' | 'scale' | 'digits' | 'dozen' | 'and';
+
+interface ParsedNumber {
+  value: number;
+  end: number; // Index of the first token after the phrase
+  ordinal: boolean;
+}
+
+// Which kind of word may follow which inside one cardinal phrase, so that
+// "one two" stays two numbers while "twenty one" becomes 21. A bare "hundred"
+// or "thousand" counts one of it, which translated "mil cien" relies on.
+const FOLLOWS: { [kind in PhraseKind]: PhraseKind[] } = {
+  start: ['unit', 'tens', 'hundred', 'scale', 'digits'],
+  unit: ['hundred', 'scale', 'dozen'],
+  tens: ['unit', 'hundred', 'scale', 'dozen'],
+  hundred: ['unit', 'tens', 'scale', 'and'],
+  scale: ['unit', 'tens', 'hundred', 'and'],
+  digits: ['hundred', 'scale', 'dozen'],
+  dozen: [],
+  and: ['unit', 'tens'],
+};
+
+function isDigits(token: string | undefined): boolean {
+  return token !== undefined && /^\d+(\.\d+)?$/.test(token);
+}
+
+function kindOf(token: string | undefined): { kind: PhraseKind; value: number; ordinal: boolean } | null {
+  if (token === undefined) return null;
+  if (UNITS[token] !== undefined) return { kind: 'unit', value: UNITS[token], ordinal: false };
+  if (ORDINAL_UNITS[token] !== undefined) return { kind: 'unit', value: ORDINAL_UNITS[token], ordinal: true };
+  if (TENS[token] !== undefined) return { kind: 'tens', value: TENS[token], ordinal: false };
+  if (ORDINAL_TENS[token] !== undefined) return { kind: 'tens', value: ORDINAL_TENS[token], ordinal: true };
+  if (token === 'hundred') return { kind: 'hundred', value: 100, ordinal: false };
+  if (SCALES[token] !== undefined) return { kind: 'scale', value: SCALES[token], ordinal: false };
+  if (ORDINAL_SCALES[token] !== undefined) {
+    const kind = token === 'hundredth' ? 'hundred' : 'scale';
+    return { kind, value: ORDINAL_SCALES[token], ordinal: true };
+  }
+  if (token === 'dozen') return { kind: 'dozen', value: 12, ordinal: false };
+  if (token === 'and') return { kind: 'and', value: 0, ordinal: false };
+  if (isDigits(token)) return { kind: 'digits', value: parseFloat(token), ordinal: false };
+  return null;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1e9) / 1e9);
+}
+
+function wordFor(table: { [word: string]: number }, value: number): string {
+  return Object.keys(table).find((word) => table[word] === value)!;
+}
+
+export class NumberParser {
+  // English words for a whole number that parseCardinal reads back, with a
+  // bare scale word for exactly one of it: 21 -> "twenty one", 100 ->
+  // "hundred", 200000 -> "two hundred thousand"
+  static spell(value: number): string {
+    const words: string[] = [];
+    let rest = value;
+
+    const scales: [string, number][] = [...Object.entries(SCALES).reverse(), ['hundred', 100]];
+    scales.forEach(([word, scale]) => {
+      if (rest < scale) return;
+      const count = Math.floor(rest / scale);
+      if (count > 1) words.push(this.spell(count));
+      words.push(word);
+      rest %= scale;
+    });
+
+    if (rest >= 20) {
+      words.push(wordFor(TENS, rest - (rest % 10)));
+      rest %= 10;
+    }
+    if (rest > 0 || words.length === 0) {
+      words.push(wordFor(UNITS, rest));
+    }
+    return words.join(' ');
+  }
+
+  // Reads one cardinal or ordinal phrase starting at `start`
+  static parseCardinal(tokens: string[], start: number): ParsedNumber | null {
+    let total = 0;
+    let current = 0;
+    let previous: PhraseKind = 'start';
+    let index = start;
+    let ordinal = false;
+
+    // "a hundred", "an thousand", "a dozen"
+    if ((tokens[index] === 'a' || tokens[index] === 'an') && ['hundred', 'dozen', ...Object.keys(SCALES)].includes(tokens[index + 1])) {
+      current = 1;
+      previous = 'unit';
+      index++;
+    }
+
+    while (index < tokens.length && !ordinal) {
+      const word = kindOf(tokens[index]);
+      if (!word || !FOLLOWS[previous].includes(word.kind)) break;
+
+      // "and" only joins when more of the number follows it
+      if (word.kind === 'and') {
+        const next = kindOf(tokens[index + 1]);
+        if (!next || (next.kind !== 'unit' && next.kind !== 'tens')) break;
+        previous = 'and';
+        index++;
+        continue;
+      }
+
+      // "twenty one" but not "twenty twelve"
+      if (word.kind === 'unit' && previous === 'tens' && word.value >= 10) break;
+
+      switch (word.kind) {
+        case 'unit':
+        case 'tens':
+        case 'digits':
+          current += word.value;
+          break;
+        case 'hundred':
+          current = (current || 1) * 100;
+          break;
+        case 'dozen':
+          current = (current || 1) * 12;
+          break;
+        case 'scale':
+          total += (current || 1) * word.value;
+          current = 0;
+          break;
+      }
+
+      ordinal = word.ordinal;
+      previous = word.kind;
+      index++;
+    }
+
+    if (previous === 'start') return null;
+
+    // "three point five"
+    if (!ordinal && tokens[index] === 'point' && UNITS[tokens[index + 1]] !== undefined && UNITS[tokens[index + 1]] < 10) {
+      let decimals = '';
+      index++;
+      while (UNITS[tokens[index]] !== undefined && UNITS[tokens[index]] < 10) {
+        decimals += UNITS[tokens[index]];
+        index++;
+      }
+      current += parseFloat(`0.${decimals}`);
+    }
+
+    return { value: total + current, end: index, ordinal };
+  }
+
+  // Replaces every number phrase in already lowercased text. `isOperatorWord`
+  // tells "minus five" as a sign ("plus minus five") apart from subtraction
+  // ("ten minus five").
+  static normalize(text: string, isOperatorWord: (word: string) => boolean = () => false): string {
+    const tokens = text
+      .split(' ')
+      .filter(Boolean)
+      .flatMap((token) => (/^[a-z]+(-[a-z]+)+$/.test(token) ? token.split('-') : [token]));
+    const output: string[] = [];
+
+    const startsNumber = (index: number) =>
+      this.parseCardinal(tokens, index) !== null || tokens[index] === 'a' || tokens[index] === 'an' || tokens[index] === 'half';
+
+    let index = 0;
+    while (index < tokens.length) {
+      const token = tokens[index];
+      const previous = output[output.length - 1];
+
+      // Sign: "negative five" anywhere, "minus five" only where no left-hand
+      // operand exists
+      let sign = '';
+      const signAllowed = previous === undefined || SYMBOLS.has(previous) || isOperatorWord(previous);
+      if ((token === 'negative' || (token === 'minus' && signAllowed)) && startsNumber(index + 1)) {
+        sign = '-';
+        index++;
+      }
+
+      const fraction = this.parseFraction(tokens, index);
+      if (fraction) {
+        index = fraction.end;
+        // "half of 4", "half a dozen" are one operand: "10 divided by half of
+        // 4" is 5, not 80
+        const of = tokens[index] === 'of';
+        const scaled = of || tokens[index] === 'a' ? this.parseCardinal(tokens, of ? index + 1 : index) : null;
+        if (scaled) {
+          output.push(`${sign}((${fraction.text}) * ${formatNumber(scaled.value)})`);
+          index = scaled.end;
+        } else {
+          output.push(`${sign}(${fraction.text})`);
+          // "half of a number"
+          if (of) {
+            output.push('*');
+            index++;
+          }
+        }
+        continue;
+      }
+
+      const number = this.parseCardinal(tokens, index);
+      if (number) {
+        // "two and a half" is one operand too, so "two and a half squared" is
+        // 6.25
+        const mixed = !number.ordinal && tokens[number.end] === 'and' ? this.parseFraction(tokens, number.end + 1) : null;
+        if (mixed && tokens[mixed.end] !== 'of') {
+          output.push(`${sign}(${formatNumber(number.value)} + ${mixed.text})`);
+          index = mixed.end;
+          continue;
+        }
+        output.push(sign + formatNumber(number.value));
+        index = number.end;
+        continue;
+      }
+
+      if (sign) output.push(tokens[index - 1]);
+      output.push(tokens[index]);
+      index++;
+    }
+
+    return output.join(' ');
+  }
+
+  // "half", "a quarter", "two thirds", or an ordinal followed by "of" ("third
+  // of 9"). Returns "numerator/denominator".
+  private static parseFraction(tokens: string[], start: number): { text: string; end: number } | null {
+    let numerator = 1;
+    let index = start;
+
+    if (tokens[index] === 'a' || tokens[index] === 'an' || tokens[index] === 'one') {
+      if (FRACTIONS[tokens[index + 1]] === undefined) return null;
+      index++;
+    } else if (tokens[index] === 'half') {
+      return { text: '1/2', end: index + 1 };
+    } else if (FRACTIONS[tokens[index]] !== undefined && tokens[index + 1] === 'of') {
+      return { text: `1/${FRACTIONS[tokens[index]]}`, end: index + 1 };
+    } else {
+      const count = this.parseCardinal(tokens, index);
+      if (!count || count.ordinal || FRACTIONS[tokens[count.end]] === undefined) return null;
+      numerator = count.value;
+      index = count.end;
+    }
+
+    return { text: `${formatNumber(numerator)}/${FRACTIONS[tokens[index]]}`, end: index + 1 };
+  }
+}
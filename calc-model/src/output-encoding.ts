@@ -0,0 +1,95 @@
+// Network output keyed by neuron name (brain.js v1.6.1 object format)
+export type NetworkOutput = { [neuron: string]: number };
+
+export type OutputEncodingConfig =
+  | { type: 'scaled'; scale: number }
+  | { type: 'digits'; integerDigits: number; decimalPlaces: number };
+
+export interface OutputEncoding {
+  readonly config: OutputEncodingConfig;
+  encode(value: number): NetworkOutput;
+  decode(output: NetworkOutput): number;
+  // 1 when every neuron sits exactly on a decodable value, 0 when one sits
+  // halfway between two
+  sharpness(output: NetworkOutput): number;
+}
+
+// Models saved before output encodings existed squeezed 0-100 into one neuron
+export const LEGACY_OUTPUT_ENCODING: OutputEncodingConfig = { type: 'scaled', scale: 100 };
+
+export const DEFAULT_OUTPUT_ENCODING: OutputEncodingConfig = { type: 'digits', integerDigits: 4, decimalPlaces: 2 };
+
+function roundingSharpness(scaled: number): number {
+  return 1 - 2 * Math.abs(scaled - Math.round(scaled));
+}
+
+class ScaledEncoding implements OutputEncoding {
+  constructor(readonly config: { type: 'scaled'; scale: number }) {}
+
+  encode(value: number): NetworkOutput {
+    return { result: value / this.config.scale };
+  }
+
+  decode(output: NetworkOutput): number {
+    return Math.round(output.result * this.config.scale);
+  }
+
+  sharpness(output: NetworkOutput): number {
+    return roundingSharpness(output.result * this.config.scale);
+  }
+}
+
+// One neuron for the sign and one per digit, each digit mapped to 0-1 as d/9
+class DigitEncoding implements OutputEncoding {
+  private readonly maxValue: number;
+
+  constructor(readonly config: { type: 'digits'; integerDigits: number; decimalPlaces: number }) {
+    this.maxValue = Math.pow(10, config.integerDigits) - Math.pow(10, -config.decimalPlaces);
+  }
+
+  private get digitNeurons(): string[] {
+    const neurons: string[] = [];
+    for (let i = 0; i < this.config.integerDigits; i++) neurons.push(`i${i}`);
+    for (let i = 0; i < this.config.decimalPlaces; i++) neurons.push(`d${i}`);
+    return neurons;
+  }
+
+  encode(value: number): NetworkOutput {
+    // Work in integer units of the last decimal place to avoid float drift
+    const magnitude = Math.min(Math.abs(value), this.maxValue);
+    const units = Math.round(magnitude * Math.pow(10, this.config.decimalPlaces));
+    const digits = units.toString().padStart(this.config.integerDigits + this.config.decimalPlaces, '0');
+
+    const output: NetworkOutput = { sign: value < 0 && units > 0 ? 1 : 0 };
+    this.digitNeurons.forEach((neuron, index) => {
+      output[neuron] = parseInt(digits[index], 10) / 9;
+    });
+    return output;
+  }
+
+  decode(output: NetworkOutput): number {
+    let units = 0;
+    this.digitNeurons.forEach((neuron) => {
+      const digit = Math.min(9, Math.max(0, Math.round((output[neuron] ?? 0) * 9)));
+      units = units * 10 + digit;
+    });
+
+    const magnitude = units / Math.pow(10, this.config.decimalPlaces);
+    return (output.sign ?? 0) > 0.5 && magnitude !== 0 ? -magnitude : magnitude;
+  }
+
+  sharpness(output: NetworkOutput): number {
+    const neuronSharpness = this.digitNeurons.map((neuron) => roundingSharpness((output[neuron] ?? 0) * 9));
+    neuronSharpness.push(roundingSharpness(output.sign ?? 0));
+    return Math.max(0, Math.min(...neuronSharpness));
+  }
+}
+
+export function createOutputEncoding(config: OutputEncodingConfig): OutputEncoding {
+  switch (config.type) {
+    case 'scaled':
+      return new ScaledEncoding(config);
+    case 'digits':
+      return new DigitEncoding(config);
+  }
+}
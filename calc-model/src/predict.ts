@@ -1,22 +1,83 @@
-import { CalculatorModel } from './calculator-model';
+import { CalculatorModel, PredictionTrace } from './calculator-model';
+import { PredictionResult } from './prediction';
+import { getArchitectureFlag, getFlag, getLocaleFlag } from './cli';
+import { ModelArchitecture } from './calculator-network';
+import { ModelVersion } from './model-registry';
+import { getLocalePack, LocaleOption } from './locale';
+import { loadCorrections, saveCorrection } from './corrections';
 import * as readline from 'readline';
 
+function describePrediction(prediction: PredictionResult): string {
+  const confidence = Math.round(prediction.confidence * 100);
+  const symbolic = prediction.symbolic === null ? 'n/a' : prediction.symbolic;
+  const intent = prediction.intent ? ` | intent: ${prediction.intent.operation}(${prediction.intent.operands.join(', ')})` : '';
+  return `${prediction.strategy}, ${confidence}% confidence | neural: ${prediction.neural}, symbolic: ${symbolic}${intent}`;
+}
+
+// "yes"/"no" for comparisons, the picked option for choices ("2^3 = 8"),
+// the solution of equations ("x = 7"), otherwise the value and its unit
+function formatAnswer(prediction: PredictionResult): string {
+  const { answer } = prediction;
+  if (answer?.type === 'boolean') return answer.value ? 'yes' : 'no';
+  if (answer?.type === 'equation') {
+    if (answer.solutions === 'none') return `no solution, no value of ${answer.variable} works`;
+    if (answer.solutions === 'infinite') return `infinitely many solutions, every value of ${answer.variable} works`;
+    return `${answer.variable} = ${answer.value}`;
+  }
+  if (answer?.type === 'choice') {
+    return answer.option === String(answer.value) ? answer.option : `${answer.option} = ${answer.value}`;
+  }
+  return `${prediction.value}${prediction.unit ? ` ${prediction.unit}` : ''}`;
+}
+
+// The answer line, or why there is none
+function describeAnswer(prediction: PredictionResult): string {
+  if (prediction.answer?.type === 'equation') return `🧩 Solved: ${formatAnswer(prediction)}`;
+  if (prediction.error) return `⚠️  ${prediction.error}`;
+  if (prediction.strategy === 'unsupported') return "🤷 I can't answer that";
+  return `🎯 Result: ${formatAnswer(prediction)}`;
+}
+
+// Raw network scores rounded to 3 places so a trace fits on a line
+function roundScores(key: string, value: unknown): unknown {
+  return typeof value === 'number' ? Math.round(value * 1000) / 1000 : value;
+}
+
+function describeTrace(trace: PredictionTrace): string[] {
+  const { stages } = trace;
+  return [
+    `   raw:        ${JSON.stringify(stages.raw)}`,
+    `   translated: ${JSON.stringify(stages.translated)} (${stages.locale})`,
+    `   stripped:   ${JSON.stringify(stages.stripped)}`,
+    `   numbers:    ${JSON.stringify(stages.normalized)}`,
+    `   expression: ${JSON.stringify(stages.expression)} (${stages.parsed ? 'parsed' : 'word substitution'})`,
+    `   tokens:     [${trace.tokens.join(', ')}]`,
+    `   network:    ${JSON.stringify(trace.networkOutput, roundScores) ?? 'n/a'}`,
+    `   decoded:    ${trace.decoded}`,
+  ];
+}
+
 async function main() {
   console.log('🔢 AI Calculator - Prediction Mode');
   console.log('==================================');
 
-  const model = new CalculatorModel();
+  const args = process.argv.slice(2);
+  const architecture = getArchitectureFlag(args);
+  const version = getFlag(args, 'version') ?? 'latest';
+  const locale = getLocaleFlag(args);
+  const model = new CalculatorModel({ architecture });
 
   // Try to load existing model
-  const modelLoaded = model.loadModel();
+  const modelLoaded = model.loadModel(version);
 
   if (!modelLoaded) {
-    console.log('❌ No trained model found!');
-    console.log('📚 Please train the model first by running: pnpm run train');
+    const modelFlag = architecture === 'feedforward' ? '' : ` --model ${architecture}`;
+    console.log(`❌ No trained model found for version "${version}"!`);
+    console.log(`📚 Please train the model first by running: pnpm run train${modelFlag}`);
     process.exit(1);
   }
 
-  console.log('✅ Model loaded successfully!');
+  console.log(`✅ Model loaded successfully! (${model.architecture}, ${model.version?.id ?? 'legacy model file'})`);
   console.log('\n📝 Examples you can try:');
   console.log('  • "2+2"');
   console.log('  • "what is 8 times 9"');
@@ -24,13 +85,25 @@ async function main() {
   console.log('  • "what is 2 power 2"');
   console.log('  • "what will I get if I add 7 with 3"');
   console.log('  • "subtract 4 from 10"');
-  console.log('\n💡 Type "exit" to quit\n');
+  console.log('  • "add 3 to 5 then multiply by 2"');
+  console.log('  • "the square of 3 plus 4"');
+  console.log('  • "5 km in miles"');
+  console.log('  • "is 12 divisible by 4"');
+  console.log('  • "which is bigger, 3 squared or 10"');
+  console.log('  • "what number times 4 is 20"');
+  console.log('  • "cuánto es cinco más tres"');
+  console.log('  • "paanch guna teen kitna hai"');
+  console.log('\n💡 Type ":trace" to show every prediction stage, ":wrong <answer>" to correct the last one, "exit" to quit\n');
 
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
   });
 
+  let tracing = false;
+  // English text of the last query, which is what a correction trains on
+  let lastQuery: string | null = null;
+
   const askQuestion = () => {
     rl.question('🤖 Enter a math question: ', (input) => {
       if (input.toLowerCase().trim() === 'exit') {
@@ -39,6 +112,29 @@ async function main() {
         return;
       }
 
+      if (input.trim() === ':trace') {
+        tracing = !tracing;
+        console.log(`🔬 Trace ${tracing ? 'on' : 'off'}\n`);
+        askQuestion();
+        return;
+      }
+
+      const wrong = input.trim().match(/^:wrong(?:\s+(.*))?$/);
+      if (wrong) {
+        const answer = Number(wrong[1]);
+        if (lastQuery === null) {
+          console.log('⚠️  Ask a question first, then correct its answer with ":wrong <answer>"\n');
+        } else if (!wrong[1] || !Number.isFinite(answer)) {
+          console.log(`⚠️  ":wrong" expects the correct answer as a number, e.g. ":wrong 15"\n`);
+        } else {
+          saveCorrection({ input: lastQuery, output: answer });
+          console.log(`📝 Saved correction: "${lastQuery}" → ${answer} (${loadCorrections().length} in total)`);
+          console.log('🔁 Run "pnpm run retrain" to fine-tune the model on your corrections\n');
+        }
+        askQuestion();
+        return;
+      }
+
       if (!input.trim()) {
         console.log('⚠️  Please enter a math question.');
         askQuestion();
@@ -46,8 +142,21 @@ async function main() {
       }
 
       try {
-        const result = model.predict(input.trim());
-        console.log(`🎯 Result: ${result}\n`);
+        const trace = model.explain(input.trim(), { locale });
+        const prediction = trace.prediction;
+        lastQuery = trace.stages.translated;
+        console.log(describeAnswer(prediction));
+        prediction.issues?.forEach((issue) => console.log(`   ${issue.message}`));
+        if (prediction.locale !== 'en') {
+          console.log(`🌐 Read as ${getLocalePack(prediction.locale).name}`);
+        }
+        console.log(`🧮 Expression: ${prediction.expression || 'n/a'}`);
+        console.log(`🔍 ${describePrediction(prediction)}`);
+        if (tracing) {
+          console.log('🔬 Trace');
+          describeTrace(trace).forEach((line) => console.log(line));
+        }
+        console.log();
       } catch (error) {
         console.log(`❌ Error: ${error}\n`);
       }
@@ -60,18 +169,27 @@ async function main() {
 }
 
 // Also provide a single prediction function for testing
-export function predictSingle(input: string): void {
-  const model = new CalculatorModel();
+export function predictSingle(
+  input: string,
+  architecture: ModelArchitecture = 'feedforward',
+  version: ModelVersion = 'latest',
+  locale: LocaleOption = 'auto'
+): void {
+  const model = new CalculatorModel({ architecture });
 
-  if (!model.loadModel()) {
+  if (!model.loadModel(version)) {
     console.log('❌ No trained model found! Please train the model first.');
     return;
   }
 
   try {
-    const result = model.predict(input);
-    console.log(`Input: "${input}"`);
-    console.log(`Result: ${result}`);
+    const prediction = model.predict(input, { locale });
+    console.log(`Input: "${input}" (${prediction.locale})`);
+    const answer = prediction.strategy === 'unsupported' ? 'unsupported' : formatAnswer(prediction);
+    console.log(prediction.error && !prediction.answer ? `Error: ${prediction.error}` : `Result: ${answer}`);
+    prediction.issues?.forEach((issue) => console.log(`Issue: ${issue.message}`));
+    console.log(`Expression: ${prediction.expression || 'n/a'}`);
+    console.log(`Strategy: ${describePrediction(prediction)}`);
   } catch (error) {
     console.log(`Error: ${error}`);
   }
@@ -0,0 +1,233 @@
+import { CalculatorNetwork, ModelArchitecture, NetworkRun } from './calculator-network';
+import { EquationError, EquationSolution, EquationSolver, InfiniteSolutionsError, NoSolutionError } from './equation-solver';
+import { Expression, formatExpression, variablesOf } from './expression';
+import {
+  EvaluationError,
+  evaluateExpression,
+  ExpressionSyntaxError,
+  parseArithmetic,
+  roundResult,
+} from './expression-evaluator';
+import { Intent } from './intent';
+import { LocaleCode, LocaleOption } from './locale';
+import { MathEvaluator, PreprocessStages, TextPreprocessor } from './preprocessor';
+import { QueryValidator, ValidationIssue } from './query-validator';
+import { UnitConverter } from './units';
+
+// 'intent' is the network path of the intent architecture: a classified
+// operation applied exactly to tagged operands. 'unsupported' answers
+// nothing: `issues` says why.
+export type PredictionStrategy = 'neural' | 'intent' | 'symbolic' | 'agreement' | 'unsupported';
+
+// Answers that are not just a number: whether a comparison holds ("is 7
+// greater than 5"), which option was picked ("which is bigger, 3 squared or
+// 10"), or what solves an equation ("x + 3 = 10"). `value` stays numeric
+// alongside: 1/0, the picked option's value or the solution, and NaN for
+// equations with no single solution.
+export type PredictionAnswer =
+  | { type: 'boolean'; value: boolean }
+  | { type: 'choice'; value: number; option: string; options: string[] }
+  | ({ type: 'equation' } & EquationSolution);
+
+export interface PredictionResult {
+  input: string;
+  locale: LocaleCode; // Language the query was read in
+  expression: string; // TextPreprocessor.preprocess output
+  value: number; // The answer picked by `strategy`
+  unit?: string; // Symbol of the unit `value` is in, for unit conversions
+  neural: number;
+  symbolic: number | null; // null when the expression could not be evaluated
+  confidence: number; // 0-1
+  strategy: PredictionStrategy;
+  intent?: Intent;
+  error?: string; // Set when the expression has no value, e.g. "Division by zero"; `value` is NaN
+  issues?: ValidationIssue[]; // Why the query is unsupported, or why the network was not trusted
+  answer?: PredictionAnswer; // Set for comparisons, choices and equations
+}
+
+export interface PredictOptions {
+  locale?: LocaleOption; // Defaults to 'auto'
+}
+
+// Queries in other languages are translated to English first, so the
+// network always sees the language it was trained on. Shared by
+// CalculatorModel and exported standalone predictors; `operandLimit` is the
+// largest number the network was trained on.
+export function predictWith(
+  network: CalculatorNetwork,
+  input: string,
+  options: PredictOptions = {},
+  operandLimit?: number
+): PredictionResult {
+  const { locale } = TextPreprocessor.localize(input, options.locale);
+  const stages = TextPreprocessor.stages(input, locale);
+  return combinePrediction(network.architecture, stages, network.run(stages.translated), operandLimit);
+}
+
+// Weighs the network's answer against exact evaluation of the expression.
+// Queries that fail validation get no network answer.
+export function combinePrediction(
+  architecture: ModelArchitecture,
+  stages: PreprocessStages,
+  run: NetworkRun,
+  operandLimit?: number
+): PredictionResult {
+  const { raw: input, locale, expression } = stages;
+  const { value: neural, sharpness, intent } = run;
+
+  let symbolic: number | null = null;
+  try {
+    symbolic = MathEvaluator.evaluate(expression);
+  } catch (error) {
+    if (!(error instanceof EvaluationError)) throw error;
+    // An unknown the solver cannot pin down is not a question at all, unlike
+    // an equation with no solution or infinitely many
+    if (error instanceof EquationError && !(error instanceof NoSolutionError || error instanceof InfiniteSolutionsError)) {
+      return {
+        input,
+        locale,
+        expression,
+        value: NaN,
+        neural,
+        symbolic: null,
+        confidence: 0,
+        strategy: 'unsupported',
+        intent,
+        issues: [{ kind: 'unsolvable', message: error.message }],
+      };
+    }
+    // A syntax error only means the preprocessor left words behind; a math
+    // error means the query itself has no answer, whatever the network says
+    if (!(error instanceof ExpressionSyntaxError)) {
+      return {
+        input,
+        locale,
+        expression,
+        value: NaN,
+        neural,
+        symbolic: null,
+        confidence: 1,
+        strategy: 'symbolic',
+        intent,
+        error: error.message,
+        answer: answerOf(expression, null), // Equations with no solution or infinitely many
+      };
+    }
+  }
+
+  // Conversions are exact, and no network was trained on them
+  const conversion = UnitConverter.parse(expression);
+  if (conversion && symbolic !== null) {
+    return {
+      input,
+      locale,
+      expression,
+      value: symbolic,
+      unit: conversion.to.symbol,
+      neural,
+      symbolic,
+      confidence: 1,
+      strategy: 'symbolic',
+      intent,
+    };
+  }
+
+  // Numbers beyond the trained range still have an exact answer; anything
+  // else wrong with the query leaves nothing to answer with
+  const answer = symbolic !== null ? answerOf(expression, symbolic) : undefined;
+  const issues = QueryValidator.validate(stages, operandLimit);
+  if (issues.length > 0) {
+    const exact = symbolic !== null && issues.every((issue) => issue.kind === 'out-of-range');
+    return {
+      input,
+      locale,
+      expression,
+      value: exact ? symbolic! : NaN,
+      neural,
+      symbolic,
+      confidence: exact ? 1 : 0,
+      strategy: exact ? 'symbolic' : 'unsupported',
+      intent,
+      issues,
+      answer: exact ? answer : undefined,
+    };
+  }
+
+  // A true/false or picked value is only useful when exact
+  if (answer) {
+    return { input, locale, expression, value: symbolic!, neural, symbolic, confidence: 1, strategy: 'symbolic', intent, answer };
+  }
+
+  // Regressed numbers are never fully trusted on their own. The intent
+  // network computes its answer exactly, so only its classifier and tagger
+  // certainty count against it.
+  const isIntent = architecture === 'intent';
+  const networkResult = {
+    input,
+    locale,
+    expression,
+    value: neural,
+    neural,
+    symbolic,
+    confidence: isIntent ? sharpness : 0.5 * sharpness,
+    strategy: (isIntent ? 'intent' : 'neural') as PredictionStrategy,
+    intent,
+  };
+
+  // No usable expression: the network is all we have
+  if (symbolic === null) {
+    return networkResult;
+  }
+
+  // A network answer that is not a number counts as full disagreement
+  const difference = Number.isNaN(neural) ? Infinity : Math.abs(neural - symbolic);
+  if (difference < 0.5) {
+    return { input, locale, expression, value: symbolic, neural, symbolic, confidence: 1, strategy: 'agreement', intent };
+  }
+
+  // An exact evaluation always wins; a network that strongly disagrees only
+  // lowers the confidence, as a hint the preprocessor may have misread the
+  // query
+  const agreement = 1 - Math.min(1, difference / Math.max(1, Math.abs(symbolic)));
+  const symbolicConfidence = 0.5 + 0.5 * agreement;
+  return {
+    input,
+    locale,
+    expression,
+    value: symbolic,
+    neural,
+    symbolic,
+    confidence: symbolicConfidence,
+    strategy: 'symbolic',
+    intent,
+  };
+}
+
+// The equation, boolean or choice answer when the expression is one of
+// those; undefined for plain arithmetic and equations the solver rejects.
+// `value` is the evaluated expression, null when it had none.
+function answerOf(expression: string, value: number | null): PredictionAnswer | undefined {
+  let tree: Expression;
+  let solution: EquationSolution | null = null;
+  try {
+    tree = parseArithmetic(expression);
+    if (variablesOf(tree).length > 0) solution = EquationSolver.solve(tree);
+  } catch (error) {
+    if (error instanceof EvaluationError) return undefined;
+    throw error;
+  }
+
+  if (solution) {
+    return { type: 'equation', ...solution };
+  }
+  if (value === null) return undefined;
+  if (tree.type === 'comparison') {
+    return { type: 'boolean', value: value === 1 };
+  }
+  if (tree.type === 'choice') {
+    const options = tree.options.map(formatExpression);
+    const picked = tree.options.findIndex((option) => roundResult(evaluateExpression(option)) === value);
+    return { type: 'choice', value, option: options[picked], options };
+  }
+  return undefined;
+}
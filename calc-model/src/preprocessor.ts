@@ -1,72 +1,169 @@
+import { EquationSolver } from './equation-solver';
+import { formatExpression, variablesOf } from './expression';
+import { EvaluationError, evaluateExpression, OverflowError, parseArithmetic, roundResult } from './expression-evaluator';
+import { ENGLISH, getLocalePack, LocaleCode, LocaleOption, LocalePack, LOCALE_PACKS, localeVocabulary } from './locale';
+import { NumberParser } from './number-parser';
+import { QueryParser } from './query-parser';
+import { createTokenizer, DEFAULT_TOKENIZER } from './tokenizer';
+import { UnitConverter } from './units';
+
 export interface TrainingExample {
   input: string;
   output: number;
 }
 
+// Bump whenever preprocess() output or a tokenizer's encoding changes, so saved
+// models can be told apart from ones trained on a different input representation
+export const TOKENIZER_VERSION = 11;
+
+// Intermediate texts of preprocess(), in order, for traces
+export interface PreprocessStages {
+  raw: string;
+  locale: LocaleCode;
+  translated: string; // English the grammar reads; the raw text for English queries
+  stripped: string; // Lowercased, question words and punctuation removed
+  normalized: string; // Number phrases turned into digits
+  expression: string; // Operation words replaced; what preprocess() returns
+  parsed: boolean; // false when the grammar missed and word substitution was used
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// A single letter beside an operator or "=" is an unknown, as in "y + 4 = 10"
+// or "a + 2 = 5", never a pack word like the Spanish "y" (and) or "a" (to)
+function isSymbolicLetter(words: string[], index: number): boolean {
+  const beside = [words[index - 1], words[index + 1]];
+  return /^[a-z]$/.test(words[index]) && beside.some((word) => word !== undefined && /^[-+*/^%=<>!]/.test(word));
+}
+
 export class TextPreprocessor {
-  private static numberWords: { [key: string]: string } = {
-    zero: '0',
-    one: '1',
-    two: '2',
-    three: '3',
-    four: '4',
-    five: '5',
-    six: '6',
-    seven: '7',
-    eight: '8',
-    nine: '9',
-    ten: '10',
-    eleven: '11',
-    twelve: '12',
-    thirteen: '13',
-    fourteen: '14',
-    fifteen: '15',
-    sixteen: '16',
-    seventeen: '17',
-    eighteen: '18',
-    nineteen: '19',
-    twenty: '20',
-  };
-
-  private static operationWords: { [key: string]: string } = {
-    plus: '+',
-    add: '+',
-    added: '+',
-    sum: '+',
-    into: '+',
-    minus: '-',
-    subtract: '-',
-    take: '-',
-    from: '-',
-    times: '*',
-    multiply: '*',
-    multiplied: '*',
-    by: '*',
-    divide: '/',
-    divided: '/',
-    over: '/',
-    power: '^',
-    raised: '^',
-    square: '^2',
-    squared: '^2',
-  };
-
-  static preprocess(text: string): string {
+  // Lowercases the query, folds accents ("más" -> "mas") and drops the pack's
+  // question words, filler phrases and punctuation
+  static strip(text: string, pack: LocalePack = ENGLISH): string {
     // Convert to lowercase and remove extra spaces
-    let processed = text.toLowerCase().trim().replace(/\s+/g, ' ');
+    let processed = text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f¿¡]/g, '')
+      .trim()
+      .replace(/\s+/g, ' ');
 
     // Remove common question words and phrases
-    processed = processed.replace(/^(what is|what will i get if|what's|whats|calculate|find)/g, '');
-    processed = processed.replace(/(please|kindly|\?|\.)/g, '');
+    if (pack.questionPhrases.length > 0) {
+      processed = processed.replace(new RegExp(`^(${pack.questionPhrases.map(escapeRegExp).join('|')})`, 'g'), '');
+    }
+    processed = processed.replace(new RegExp(`(${[...pack.fillerPhrases.map(escapeRegExp), '\\?', '\\.(?!\\d)'].join('|')})`, 'g'), '');
 
-    // Replace number words with digits
-    Object.entries(this.numberWords).forEach(([word, digit]) => {
-      const regex = new RegExp(`\\b${word}\\b`, 'g');
-      processed = processed.replace(regex, digit);
+    return processed.trim().replace(/\s+/g, ' ');
+  }
+
+  // Rewrites a query in another language as the English the grammar reads:
+  // "cuanto es cinco mas tres" -> "five plus three". English passes through.
+  static translate(text: string, pack: LocalePack): string {
+    if (pack === ENGLISH) return text;
+
+    let processed = this.strip(text, pack);
+    pack.patterns.forEach(({ pattern, replacement }) => {
+      processed = processed.replace(pattern, replacement);
     });
 
+    // Longest phrase first at each word, so "dividido entre" wins over "entre"
+    const phrases = [
+      ...Object.entries(pack.numberWords).map(([phrase, value]) => [phrase, NumberParser.spell(value)]),
+      ...Object.entries(pack.operatorWords),
+    ]
+      .map(([phrase, replacement]) => ({ words: phrase.split(' '), replacement }))
+      .sort((left, right) => right.words.length - left.words.length);
+
+    const words = processed.split(' ').filter(Boolean);
+    const output: string[] = [];
+    let index = 0;
+    while (index < words.length) {
+      if (isSymbolicLetter(words, index)) {
+        output.push(words[index++]);
+        continue;
+      }
+      const phrase = phrases.find((candidate) => candidate.words.every((word, offset) => words[index + offset] === word));
+      output.push(phrase ? phrase.replacement : words[index]);
+      index += phrase ? phrase.words.length : 1;
+    }
+    return output.join(' ');
+  }
+
+  // The language a query is written in: the pack sharing the most words with
+  // it whose translation the grammar can parse, English when none can
+  static detectLocale(text: string): LocaleCode {
+    const tokens = this.strip(text)
+      .replace(/([-+*/^%=<>!()])/g, ' $1 ')
+      .split(' ')
+      .filter(Boolean);
+    const words = tokens.flatMap((token, index) => (isSymbolicLetter(tokens, index) ? [] : token.split(/[^a-z]+/)));
+    const candidates = LOCALE_PACKS.map((pack) => {
+      const vocabulary = localeVocabulary(pack);
+      return { pack, hits: words.filter((word) => vocabulary.has(word)).length };
+    })
+      .filter((candidate) => candidate.pack === ENGLISH || candidate.hits > 0)
+      .sort((left, right) => right.hits - left.hits);
+
+    const parsed = candidates.find((candidate) => this.stages(text, candidate.pack.code).parsed);
+    return parsed?.pack.code ?? ENGLISH.code;
+  }
+
+  // The query in English along with the locale it was read as
+  static localize(text: string, locale: LocaleOption = 'auto'): { locale: LocaleCode; text: string } {
+    const code = locale === 'auto' ? this.detectLocale(text) : locale;
+    return { locale: code, text: this.translate(text, getLocalePack(code)) };
+  }
+
+  // Lowercases the query, drops question words and turns number phrases into
+  // digits, leaving operation words in place
+  static normalize(text: string): string {
+    return this.replaceNumbers(this.strip(text));
+  }
+
+  // Replaces number phrases with digits; after an operation word "minus" is
+  // a sign rather than a subtraction
+  private static replaceNumbers(text: string): string {
+    return NumberParser.normalize(
+      text,
+      (word) => ENGLISH.operatorWords[word] !== undefined || ['and', 'with', 'to', 'of'].includes(word)
+    );
+  }
+
+  // Canonical infix expression for the query, e.g. "subtract 4 from 10" ->
+  // "10 - 4"
+  static preprocess(text: string, locale: LocaleCode = 'en'): string {
+    return this.stages(text, locale).expression;
+  }
+
+  static stages(text: string, locale: LocaleCode = 'en'): PreprocessStages {
+    const translated = this.translate(text, getLocalePack(locale));
+    const stripped = this.strip(translated);
+    const normalized = this.replaceNumbers(stripped);
+    const stages = { raw: text, locale, translated, stripped, normalized };
+
+    // "5 km in miles" -> "5 km to mi"
+    const conversion = UnitConverter.match(normalized);
+    if (conversion) {
+      return { ...stages, expression: UnitConverter.format(conversion), parsed: true };
+    }
+
+    const expression = QueryParser.parse(normalized);
+    if (expression) {
+      return { ...stages, expression: formatExpression(expression), parsed: true };
+    }
+
+    return { ...stages, expression: this.substituteWords(normalized), parsed: false };
+  }
+
+  // Phrasings the grammar does not cover fall back to word substitution
+  private static substituteWords(text: string): string {
+    let processed = text;
+
     // Replace operation words with symbols
-    Object.entries(this.operationWords).forEach(([word, symbol]) => {
+    Object.entries(ENGLISH.operatorWords).forEach(([word, symbol]) => {
       const regex = new RegExp(`\\b${word}\\b`, 'g');
       processed = processed.replace(regex, symbol);
     });
@@ -82,60 +179,44 @@ export class TextPreprocessor {
     return processed;
   }
 
+  // The query encoded with the default character tokenizer, see tokenizer.ts
   static tokenize(text: string): number[] {
-    const processed = this.preprocess(text);
-
-    // Simplified encoding scheme for better learning
-    const tokens: number[] = [];
-    const maxLength = 15; // Shorter for better learning
-
-    for (let i = 0; i < maxLength; i++) {
-      if (i < processed.length) {
-        const char = processed[i];
-        if (char >= '0' && char <= '9') {
-          // Numbers: map 0-9 to 0.1-1.0
-          const num = parseFloat(char);
-          tokens.push((num + 1) / 10); // 0->0.1, 1->0.2, ..., 9->1.0
-        } else if (char === '+') {
-          tokens.push(0.91);
-        } else if (char === '-') {
-          tokens.push(0.92);
-        } else if (char === '*') {
-          tokens.push(0.93);
-        } else if (char === '/') {
-          tokens.push(0.94);
-        } else if (char === '^') {
-          tokens.push(0.95);
-        } else if (char === ' ') {
-          tokens.push(0.01);
-        } else {
-          tokens.push(0.02); // Other characters
-        }
-      } else {
-        tokens.push(0); // Padding
-      }
-    }
-
-    return tokens;
+    return createTokenizer(DEFAULT_TOKENIZER).encode(this.preprocess(text));
   }
 }
 
+// Evaluates canonical expressions with the tokenizer and parser in
+// expression-evaluator.ts; no JavaScript is ever run
 export class MathEvaluator {
+  // Throws an EvaluationError subclass (ExpressionSyntaxError,
+  // DivisionByZeroError, MathDomainError, OverflowError, IncompatibleUnitsError,
+  // EquationError) when the expression has no finite value. Unit conversions ("5 km to mi") go to
+  // UnitConverter. Results keep 12 significant digits, so binary rounding
+  // noise such as 0.1 + 0.2 = 0.30000000000000004 never reaches an answer.
+  // Comparisons ("7 > 5") are 1 when true and 0 when false. Equations ("x +
+  // 3 = 10") are worth the value of their unknown, see EquationSolver.
   static evaluate(expression: string): number {
-    try {
-      // Safety check - only allow basic math operations
-      if (!/^[\d\+\-\*\/\^\.\s\(\)]+$/.test(expression)) {
-        throw new Error('Invalid characters in expression');
-      }
-
-      // Handle power operations (^)
-      let processedExpression = expression.replace(/(\d+)\^(\d+)/g, 'Math.pow($1, $2)');
+    const conversion = UnitConverter.parse(expression);
+    let result: number;
+    if (conversion) {
+      result = UnitConverter.convert(conversion);
+    } else {
+      const tree = parseArithmetic(expression);
+      result = variablesOf(tree).length > 0 ? EquationSolver.evaluate(tree) : evaluateExpression(tree);
+    }
+    // Conversions and equation solutions can overflow as well as arithmetic
+    if (!Number.isFinite(result)) throw new OverflowError();
+    return roundResult(result);
+  }
 
-      // Use Function constructor for safe evaluation
-      return Function(`"use strict"; return (${processedExpression})`)();
+  // Quiet variant used at inference time: returns null when the preprocessed
+  // text is not an arithmetic expression or has no finite value
+  static tryEvaluate(expression: string): number | null {
+    try {
+      return this.evaluate(expression);
     } catch (error) {
-      console.error('Error evaluating expression:', expression, error);
-      return 0;
+      if (error instanceof EvaluationError) return null;
+      throw error;
     }
   }
 }
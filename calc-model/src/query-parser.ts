@@ -0,0 +1,706 @@
+import {
+  binary,
+  BinaryOperator,
+  call,
+  ChoiceFunction,
+  choose,
+  compare,
+  Comparator,
+  Expression,
+  negate,
+  num,
+  UnaryFunction,
+  variable,
+  variablesOf,
+} from './expression';
+import { VARIABLE_NAMES } from './expression-evaluator';
+
+// Parses normalized query text (lowercase, numbers already digits) into an
+// expression tree. Handles symbols and infix words ("8 times 9", "2 to the
+// power of 3") with the usual precedence, and verb-first phrases that put
+// their operands in a fixed order ("subtract 4 from 10" is 10 - 4). A query
+// may end in one comparison ("is 7 greater than 5") or ask for one of several
+// values ("which is bigger, 3 squared or 10"). With an unknown ("x", "what
+// number", "a number") and "is", "equals" or "=", it is an equation:
+// "what number times 4 is 20" is x * 4 = 20.
+
+// `change` marks increases and decreases, where a percentage is of the
+// amount changed: "200 increased by 10%" and "200 + 10%" are both 220
+interface WordOperator {
+  words: string[];
+  operator: BinaryOperator;
+  change?: boolean;
+}
+
+// "subtract A from B": `reversed` means the result is B op A
+interface VerbPhrase {
+  words: string[];
+  connectors: string[][];
+  operator: BinaryOperator;
+  reversed?: boolean;
+  change?: boolean;
+}
+
+// Phrases with three operands or a formula of their own, such as "simple
+// interest on A at B for C years". `connectors` come between operands and
+// `units` may follow the last one.
+interface FormulaPhrase {
+  words: string[];
+  connectors: string[][][];
+  units?: string[];
+  build: (...operands: Expression[]) => Expression;
+}
+
+class ParseError extends Error {}
+
+// Longer phrasings come first so "to the power of" wins over "to the power"
+const INFIX_OPERATORS: WordOperator[] = [
+  { words: ['+'], operator: '+', change: true },
+  { words: ['plus'], operator: '+', change: true },
+  { words: ['added', 'to'], operator: '+' },
+  { words: ['increased', 'by'], operator: '+', change: true },
+  { words: ['and'], operator: '+' },
+  { words: ['with'], operator: '+' },
+  { words: ['into'], operator: '+' },
+  { words: ['-'], operator: '-', change: true },
+  { words: ['minus'], operator: '-', change: true },
+  { words: ['decreased', 'by'], operator: '-', change: true },
+  { words: ['reduced', 'by'], operator: '-', change: true },
+  { words: ['*'], operator: '*' },
+  { words: ['times'], operator: '*' },
+  { words: ['multiplied', 'by'], operator: '*' },
+  { words: ['multiplied', 'with'], operator: '*' },
+  { words: ['lots', 'of'], operator: '*' },
+  { words: ['groups', 'of'], operator: '*' },
+  { words: ['/'], operator: '/' },
+  { words: ['divided', 'by'], operator: '/' },
+  { words: ['split', 'by'], operator: '/' },
+  { words: ['shared', 'by'], operator: '/' },
+  { words: ['over'], operator: '/' },
+  { words: ['%'], operator: '%' },
+  { words: ['mod'], operator: '%' },
+  { words: ['modulo'], operator: '%' },
+  { words: ['^'], operator: '^' },
+  { words: ['raised', 'to', 'the', 'power', 'of'], operator: '^' },
+  { words: ['raised', 'to', 'the', 'power'], operator: '^' },
+  { words: ['raised', 'to'], operator: '^' },
+  { words: ['to', 'the', 'power', 'of'], operator: '^' },
+  { words: ['to', 'the', 'power'], operator: '^' },
+  { words: ['power', 'of'], operator: '^' },
+  { words: ['power'], operator: '^' },
+];
+
+// "8 squared", "8 square", "2 cubed"
+const POSTFIX_POWERS: { words: string[]; exponent: number }[] = [
+  { words: ['squared'], exponent: 2 },
+  { words: ['square'], exponent: 2 },
+  { words: ['cubed'], exponent: 3 },
+];
+
+// "5!", "5 factorial", "5 percent"; a "%" with no operand after it is a
+// percentage
+const POSTFIX_FUNCTIONS: { words: string[]; name: UnaryFunction }[] = [
+  { words: ['!'], name: 'factorial' },
+  { words: ['factorial'], name: 'factorial' },
+  { words: ['percent'], name: 'percent' },
+  { words: ['per', 'cent'], name: 'percent' },
+];
+
+// A percentage followed by one of these is applied to the amount after it:
+// "15% of 80" is 12, "20% off 50" is 40, "18% tip on 42" is the tip
+const PERCENT_APPLICATIONS: { words: string[]; apply: (percentage: Expression, amount: Expression) => Expression }[] = [
+  { words: ['of'], apply: (percentage, amount) => binary('*', percentage, amount) },
+  { words: ['off'], apply: (percentage, amount) => applyChange('-', amount, percentage) },
+  { words: ['discount', 'on'], apply: (percentage, amount) => applyChange('-', amount, percentage) },
+  { words: ['tip', 'on'], apply: (percentage, amount) => binary('*', percentage, amount) },
+  { words: ['tip', 'for'], apply: (percentage, amount) => binary('*', percentage, amount) },
+];
+
+// "sqrt 16", "the square root of 16", "factorial of 5"
+const PREFIX_FUNCTIONS: { words: string[]; name: UnaryFunction }[] = [
+  { words: ['sqrt'], name: 'sqrt' },
+  { words: ['square', 'root', 'of'], name: 'sqrt' },
+  { words: ['square', 'root'], name: 'sqrt' },
+  { words: ['factorial', 'of'], name: 'factorial' },
+];
+
+const VERB_PHRASES: VerbPhrase[] = [
+  { words: ['add'], connectors: [['to'], ['and'], ['with']], operator: '+' },
+  { words: ['sum', 'of'], connectors: [['and']], operator: '+' },
+  { words: ['total', 'of'], connectors: [['and']], operator: '+' },
+  { words: ['combine'], connectors: [['and'], ['with']], operator: '+' },
+  { words: ['subtract'], connectors: [['from']], operator: '-', reversed: true },
+  { words: ['take', 'away'], connectors: [['from']], operator: '-', reversed: true },
+  { words: ['take'], connectors: [['from']], operator: '-', reversed: true },
+  { words: ['deduct'], connectors: [['from']], operator: '-', reversed: true },
+  { words: ['remove'], connectors: [['from']], operator: '-', reversed: true },
+  { words: ['reduce'], connectors: [['by']], operator: '-', change: true },
+  { words: ['increase'], connectors: [['by']], operator: '+', change: true },
+  { words: ['decrease'], connectors: [['by']], operator: '-', change: true },
+  { words: ['difference', 'between'], connectors: [['and']], operator: '-' },
+  { words: ['difference', 'of'], connectors: [['and']], operator: '-' },
+  { words: ['multiply'], connectors: [['by'], ['with'], ['and']], operator: '*' },
+  { words: ['product', 'of'], connectors: [['and']], operator: '*' },
+  { words: ['divide'], connectors: [['by']], operator: '/' },
+  { words: ['quotient', 'of'], connectors: [['and']], operator: '/' },
+  {
+    words: ['raise'],
+    connectors: [['to', 'the', 'power', 'of'], ['to', 'the', 'power'], ['to']],
+    operator: '^',
+  },
+];
+
+// Interest is yearly, and compound interest is compounded once a year. Both
+// give the interest earned, not the final balance.
+const simpleInterest = (principal: Expression, rate: Expression, years: Expression) =>
+  binary('*', binary('*', principal, rate), years);
+const compoundInterest = (principal: Expression, rate: Expression, years: Expression) =>
+  binary('-', binary('*', principal, binary('^', binary('+', num(1), rate), years)), principal);
+// Percent change from A to B; a decrease is reported as a positive percentage
+const percentChange = (from: Expression, to: Expression) => binary('*', binary('/', binary('-', to, from), from), num(100));
+const percentDecrease = (from: Expression, to: Expression) => binary('*', binary('/', binary('-', from, to), from), num(100));
+const percentOf = (part: Expression, whole: Expression) => binary('*', binary('/', part, whole), num(100));
+
+const INTEREST_CONNECTORS = [[['at']], [['for'], ['over']]];
+const INTEREST_UNITS = ['years', 'year'];
+
+const FORMULA_PHRASES: FormulaPhrase[] = [
+  { words: ['simple', 'interest', 'on'], connectors: INTEREST_CONNECTORS, units: INTEREST_UNITS, build: simpleInterest },
+  { words: ['compound', 'interest', 'on'], connectors: INTEREST_CONNECTORS, units: INTEREST_UNITS, build: compoundInterest },
+  { words: ['interest', 'on'], connectors: INTEREST_CONNECTORS, units: INTEREST_UNITS, build: simpleInterest },
+  { words: ['percent', 'change', 'from'], connectors: [[['to']]], build: percentChange },
+  { words: ['percentage', 'change', 'from'], connectors: [[['to']]], build: percentChange },
+  { words: ['percent', 'increase', 'from'], connectors: [[['to']]], build: percentChange },
+  { words: ['percentage', 'increase', 'from'], connectors: [[['to']]], build: percentChange },
+  { words: ['percent', 'decrease', 'from'], connectors: [[['to']]], build: percentDecrease },
+  { words: ['percentage', 'decrease', 'from'], connectors: [[['to']]], build: percentDecrease },
+  { words: ['what', 'percent', 'is'], connectors: [[['of']]], build: percentOf },
+  { words: ['what', 'percentage', 'is'], connectors: [[['of']]], build: percentOf },
+  { words: ['what', 'percent', 'of'], connectors: [[['is']]], build: (whole, part) => percentOf(part, whole) },
+  { words: ['what', 'percentage', 'of'], connectors: [[['is']]], build: (whole, part) => percentOf(part, whole) },
+  { words: ['tip'], connectors: [[['on'], ['for']]], build: (percentage, amount) => binary('*', percentage, amount) },
+  { words: ['discount'], connectors: [[['on'], ['off']]], build: (percentage, amount) => applyChange('-', amount, percentage) },
+];
+
+// Comparisons between two expressions, read after the first with an
+// optional "is" before them: "7 is greater than 5", "is 12 divisible by 4".
+// Longer phrasings first, so "less than or equal to" wins over "less than".
+const isMultiple = (multiple: Expression, factor: Expression) => compare('=', binary('%', multiple, factor), num(0));
+const comparing = (comparator: Comparator) => (left: Expression, right: Expression) => compare(comparator, left, right);
+
+const COMPARISONS: { words: string[]; build: (left: Expression, right: Expression) => Expression }[] = [
+  { words: ['greater', 'than', 'or', 'equal', 'to'], build: comparing('>=') },
+  { words: ['more', 'than', 'or', 'equal', 'to'], build: comparing('>=') },
+  { words: ['less', 'than', 'or', 'equal', 'to'], build: comparing('<=') },
+  { words: ['greater', 'than'], build: comparing('>') },
+  { words: ['bigger', 'than'], build: comparing('>') },
+  { words: ['larger', 'than'], build: comparing('>') },
+  { words: ['more', 'than'], build: comparing('>') },
+  { words: ['higher', 'than'], build: comparing('>') },
+  { words: ['less', 'than'], build: comparing('<') },
+  { words: ['smaller', 'than'], build: comparing('<') },
+  { words: ['fewer', 'than'], build: comparing('<') },
+  { words: ['lower', 'than'], build: comparing('<') },
+  { words: ['at', 'least'], build: comparing('>=') },
+  { words: ['at', 'most'], build: comparing('<=') },
+  { words: ['not', 'equal', 'to'], build: comparing('!=') },
+  { words: ['equal', 'to'], build: comparing('=') },
+  { words: ['equals'], build: comparing('=') },
+  { words: ['equal'], build: comparing('=') },
+  { words: ['the', 'same', 'as'], build: comparing('=') },
+  { words: ['divisible', 'by'], build: isMultiple },
+  { words: ['a', 'multiple', 'of'], build: isMultiple },
+  { words: ['a', 'factor', 'of'], build: (factor, multiple) => isMultiple(multiple, factor) },
+  { words: ['>', '='], build: comparing('>=') },
+  { words: ['<', '='], build: comparing('<=') },
+  { words: ['!', '='], build: comparing('!=') },
+  { words: ['≥'], build: comparing('>=') },
+  { words: ['≤'], build: comparing('<=') },
+  { words: ['≠'], build: comparing('!=') },
+  { words: ['>'], build: comparing('>') },
+  { words: ['<'], build: comparing('<') },
+  { words: ['='], build: comparing('=') },
+];
+
+// "is 7 even"
+const PARITIES: { words: string[]; comparator: Comparator }[] = [
+  { words: ['even'], comparator: '=' },
+  { words: ['odd'], comparator: '!=' },
+];
+
+// "which is bigger, 3 squared or 10", "the larger of 4 and 6": the value
+// picked among options separated by commas, "or" or "and"
+const CHOICES: { words: string[]; name: ChoiceFunction }[] = [
+  { words: ['bigger'], name: 'max' },
+  { words: ['larger'], name: 'max' },
+  { words: ['greater'], name: 'max' },
+  { words: ['higher'], name: 'max' },
+  { words: ['more'], name: 'max' },
+  { words: ['biggest'], name: 'max' },
+  { words: ['largest'], name: 'max' },
+  { words: ['greatest'], name: 'max' },
+  { words: ['highest'], name: 'max' },
+  { words: ['maximum'], name: 'max' },
+  { words: ['max'], name: 'max' },
+  { words: ['smaller'], name: 'min' },
+  { words: ['less'], name: 'min' },
+  { words: ['lower'], name: 'min' },
+  { words: ['fewer'], name: 'min' },
+  { words: ['smallest'], name: 'min' },
+  { words: ['lowest'], name: 'min' },
+  { words: ['least'], name: 'min' },
+  { words: ['minimum'], name: 'min' },
+  { words: ['min'], name: 'min' },
+];
+const CHOICE_SEPARATORS = ['or', 'and'];
+
+// Ways of naming the unknown of an equation; phrases read as x, letters as
+// themselves
+const UNKNOWNS: { words: string[]; name: string }[] = [
+  { words: ['what', 'number'], name: 'x' },
+  { words: ['which', 'number'], name: 'x' },
+  { words: ['a', 'certain', 'number'], name: 'x' },
+  { words: ['a', 'number'], name: 'x' },
+  { words: ['some', 'number'], name: 'x' },
+  { words: ['the', 'number'], name: 'x' },
+  ...VARIABLE_NAMES.map((name) => ({ words: [name], name })),
+];
+
+// "5 less than a number" is x - 5 and "3 more than a number" is x + 3. Only
+// before an unknown: "is 5 less than 8" compares.
+const RELATIVE_OPERATORS: WordOperator[] = [
+  { words: ['less', 'than'], operator: '-' },
+  { words: ['fewer', 'than'], operator: '-' },
+  { words: ['more', 'than'], operator: '+' },
+  { words: ['greater', 'than'], operator: '+' },
+];
+
+// "twice a number", "triple 4"
+const PREFIX_MULTIPLES: { words: string[]; factor: number }[] = [
+  { words: ['twice'], factor: 2 },
+  { words: ['double'], factor: 2 },
+  { words: ['thrice'], factor: 3 },
+  { words: ['triple'], factor: 3 },
+];
+
+// "the square of 3", "cube 2"
+const PREFIX_POWERS: { words: string[]; exponent: number }[] = [
+  { words: ['square', 'of'], exponent: 2 },
+  { words: ['square'], exponent: 2 },
+  { words: ['cube', 'of'], exponent: 3 },
+  { words: ['cube'], exponent: 3 },
+];
+
+// Steps after "then" apply to the result so far: "add 3 to 5 then multiply by
+// 2". `operand` fixes the right-hand side ("then square it").
+interface FollowUp {
+  words: string[];
+  connectors?: string[][];
+  operator: BinaryOperator;
+  operand?: number;
+}
+
+const FOLLOW_UPS: FollowUp[] = [
+  { words: ['add'], operator: '+' },
+  { words: ['subtract'], operator: '-' },
+  { words: ['take', 'away'], operator: '-' },
+  { words: ['multiply'], connectors: [['by']], operator: '*' },
+  { words: ['divide'], connectors: [['by']], operator: '/' },
+  { words: ['raise'], connectors: [['to', 'the', 'power', 'of'], ['to', 'the', 'power'], ['to']], operator: '^' },
+  { words: ['square'], operator: '^', operand: 2 },
+  { words: ['cube'], operator: '^', operand: 3 },
+  { words: ['double'], operator: '*', operand: 2 },
+  { words: ['halve'], operator: '/', operand: 2 },
+];
+
+// Words skipped before the query proper: "work out", "could you solve",
+// "which is", "tell me the result of". Anything else before the first operand
+// is an error, so "* 3 + 2" is not read as 3 + 2.
+export const LEAD_IN_WORDS = [
+  'work', 'out', 'tell', 'me', 'could', 'can', 'would', 'you', 'solve', 'do', 'does', 'give', 'compute', 'which',
+  'what', 'is', 'the', 'result', 'answer', 'of', 'i', 'we', 'get', 'if', 'will', 'how', 'much',
+];
+
+// Ways of referring back to the result so far
+const REFERENCES: string[][] = [['it'], ['that'], ['the', 'result'], ['the', 'answer']];
+
+// How tightly each operator holds its operands; `^` is right-associative
+const BINDING_POWER: { [operator in BinaryOperator]: number } = {
+  '+': 10,
+  '-': 10,
+  '*': 20,
+  '/': 20,
+  '%': 20,
+  '^': 30,
+};
+const NEGATE_BINDING_POWER = 25;
+// Prefix powers and functions take a single operand: "the square of 3 plus 4"
+// is 3^2 + 4
+const PREFIX_BINDING_POWER = 40;
+
+function isNumber(token: string | undefined): boolean {
+  return token !== undefined && /^\d/.test(token);
+}
+
+function isPercentage(expression: Expression): boolean {
+  return expression.type === 'function' && expression.name === 'percent';
+}
+
+// Adding or taking away a percentage scales the amount, as on a calculator:
+// 200 + 10% is 200 + 10% * 200, but 10% + 5% is still 15%
+function applyChange(operator: BinaryOperator, amount: Expression, change: Expression): Expression {
+  if (isPercentage(change) && !isPercentage(amount) && (operator === '+' || operator === '-')) {
+    return binary(operator, amount, binary('*', change, amount));
+  }
+  return binary(operator, amount, change);
+}
+
+export class QueryParser {
+  private position = 0;
+
+  private constructor(private readonly tokens: string[]) {}
+
+  // Every word in the grammar's tables, for telling unknown words apart
+  static vocabulary(): Set<string> {
+    const phrases = [
+      ...[
+        ...INFIX_OPERATORS,
+        ...POSTFIX_POWERS,
+        ...POSTFIX_FUNCTIONS,
+        ...PERCENT_APPLICATIONS,
+        ...PREFIX_FUNCTIONS,
+        ...PREFIX_POWERS,
+        ...COMPARISONS,
+        ...PARITIES,
+        ...CHOICES,
+        ...UNKNOWNS,
+        ...RELATIVE_OPERATORS,
+        ...PREFIX_MULTIPLES,
+      ].map((entry) => entry.words),
+      ...[...VERB_PHRASES, ...FOLLOW_UPS].flatMap((phrase) => [phrase.words, ...(phrase.connectors ?? [])]),
+      ...FORMULA_PHRASES.flatMap((phrase) => [phrase.words, ...phrase.connectors.flat(), phrase.units ?? []]),
+      ...REFERENCES,
+      ['the', 'then', 'negative', 'to', 'from', 'is', 'of'],
+      CHOICE_SEPARATORS,
+    ];
+    return new Set(phrases.flat().filter((word) => /^[a-z]+$/.test(word)));
+  }
+
+  // Returns null when the text is not something the grammar understands
+  static parse(text: string): Expression | null {
+    const tokens = (text.match(/\d+(?:\.\d+)?|[a-z]+|[^\s\w]/g) ?? []).filter((token) => token !== ',');
+    const parser = new QueryParser(tokens);
+
+    try {
+      return parser.parseQuery();
+    } catch (error) {
+      if (error instanceof ParseError) return null;
+      throw error;
+    }
+  }
+
+  private parseQuery(): Expression {
+    // Lead-in words ("work out", "tell me", "the result of") carry no math
+    while (this.position < this.tokens.length && !this.startsOperand()) {
+      const token = this.tokens[this.position];
+      if (!LEAD_IN_WORDS.includes(token)) {
+        throw new ParseError(`Unexpected "${token}" before the query`);
+      }
+      this.position++;
+    }
+
+    // "what is y if y + 2 = 5": the unknown asked for is the one solved for
+    const name = this.tokens[this.position];
+    const asked = VARIABLE_NAMES.includes(name) && this.tokens[this.position + 1] === 'if';
+    if (asked) this.position += 2;
+
+    let expression = this.parseExpression(0, []);
+    while (this.matches(['then']) || this.matches(['and', 'then'])) {
+      this.position += this.matches(['then']) ? 1 : 2;
+      expression = this.parseFollowUp(expression);
+    }
+    expression = this.parseComparison(expression);
+
+    if (this.position < this.tokens.length) {
+      throw new ParseError(`Unexpected "${this.tokens[this.position]}"`);
+    }
+    if (asked && (expression.type !== 'comparison' || !variablesOf(expression).includes(name))) {
+      throw new ParseError(`Nothing to solve for ${name}`);
+    }
+    return expression;
+  }
+
+  // At most one comparison, after the whole left-hand side: "is 3 plus 4
+  // greater than 6", "is 7 odd"
+  private parseComparison(left: Expression): Expression {
+    const offset = this.matches(['is']) ? 1 : 0;
+    const parity = PARITIES.find((candidate) => this.matches(candidate.words, offset));
+    if (parity) {
+      this.position += offset + parity.words.length;
+      return compare(parity.comparator, binary('%', left, num(2)), num(0));
+    }
+
+    const comparison = COMPARISONS.find((candidate) => this.matches(candidate.words, offset));
+    if (comparison) {
+      this.position += offset + comparison.words.length;
+      return comparison.build(left, this.parseExpression(0, []));
+    }
+
+    // A bare "is" between two values: "3 plus 4 is 7"
+    if (offset === 1 && this.position + 1 < this.tokens.length) {
+      this.position++;
+      return compare('=', left, this.parseExpression(0, []));
+    }
+    return left;
+  }
+
+  // Pratt loop: operators that bind at least as tightly as `minPower` extend
+  // the left operand. Words in `stops` end the expression instead, so the
+  // "and" in "add 3 and 5" is not read as another addition.
+  private parseExpression(minPower: number, stops: string[]): Expression {
+    let left = this.parseOperand(stops);
+
+    for (;;) {
+      const postfix = POSTFIX_POWERS.find((candidate) => this.matches(candidate.words));
+      if (postfix) {
+        this.position += postfix.words.length;
+        left = binary('^', left, num(postfix.exponent));
+        continue;
+      }
+
+      // "5 != 6" compares rather than taking a factorial
+      const postfixFunction = !this.matches(['!', '='])
+        ? POSTFIX_FUNCTIONS.find((candidate) => this.matches(candidate.words))
+        : undefined;
+      const percentSign = this.matches(['%']) && (!this.startsOperand(1) || this.startsPercentApplication(1));
+      if (postfixFunction || percentSign) {
+        this.position += postfixFunction?.words.length ?? 1;
+        left = call(postfixFunction?.name ?? 'percent', left);
+        continue;
+      }
+
+      const application = isPercentage(left) ? PERCENT_APPLICATIONS.find((candidate) => this.matches(candidate.words)) : undefined;
+      if (application) {
+        this.position += application.words.length;
+        left = application.apply(left, this.parseExpression(BINDING_POWER['*'] + 1, stops));
+        continue;
+      }
+
+      const relative = RELATIVE_OPERATORS.find(
+        (candidate) => this.matches(candidate.words) && this.startsUnknown(candidate.words.length)
+      );
+      if (relative && BINDING_POWER[relative.operator] >= minPower) {
+        this.position += relative.words.length;
+        const right = this.parseExpression(BINDING_POWER[relative.operator] + 1, stops);
+        left = binary(relative.operator, right, left);
+        continue;
+      }
+
+      const infix = !this.matches(['and', 'then'])
+        ? INFIX_OPERATORS.find((candidate) => !stops.includes(candidate.words[0]) && this.matches(candidate.words))
+        : undefined;
+      if (!infix || BINDING_POWER[infix.operator] < minPower) break;
+
+      this.position += infix.words.length;
+      const power = BINDING_POWER[infix.operator];
+      const right = this.parseExpression(infix.operator === '^' ? power : power + 1, stops);
+      left = infix.change ? applyChange(infix.operator, left, right) : binary(infix.operator, left, right);
+    }
+
+    return left;
+  }
+
+  private parseOperand(stops: string[]): Expression {
+    const token = this.tokens[this.position];
+    if (token === undefined) {
+      throw new ParseError('Unexpected end of query');
+    }
+
+    if (isNumber(token)) {
+      this.position++;
+      // "2x" is 2 * x
+      const name = this.tokens[this.position];
+      if (VARIABLE_NAMES.includes(name)) {
+        this.position++;
+        return binary('*', num(parseFloat(token)), variable(name));
+      }
+      return num(parseFloat(token));
+    }
+
+    const unknown = UNKNOWNS.find((candidate) => this.matches(candidate.words));
+    if (unknown) {
+      this.position += unknown.words.length;
+      return variable(unknown.name);
+    }
+
+    if (token === '(') {
+      this.position++;
+      const inner = this.parseExpression(0, []);
+      this.expect([')']);
+      return inner;
+    }
+
+    // Number words were already signed by NumberParser; this covers "minus (2 + 3)"
+    if (token === '-' || token === 'minus' || token === 'negative') {
+      this.position++;
+      return negate(this.parseExpression(NEGATE_BINDING_POWER, stops));
+    }
+
+    if (token === 'the') {
+      this.position++;
+      return this.parseOperand(stops);
+    }
+
+    const prefixFunction = PREFIX_FUNCTIONS.find((candidate) => this.matches(candidate.words));
+    if (prefixFunction) {
+      this.position += prefixFunction.words.length;
+      return call(prefixFunction.name, this.parseExpression(PREFIX_BINDING_POWER, stops));
+    }
+
+    const multiple = PREFIX_MULTIPLES.find((candidate) => this.matches(candidate.words));
+    if (multiple) {
+      this.position += multiple.words.length;
+      return binary('*', num(multiple.factor), this.parseExpression(PREFIX_BINDING_POWER, stops));
+    }
+
+    const prefix = PREFIX_POWERS.find((candidate) => this.matches(candidate.words));
+    if (prefix) {
+      this.position += prefix.words.length;
+      return binary('^', this.parseExpression(PREFIX_BINDING_POWER, stops), num(prefix.exponent));
+    }
+
+    const verb = VERB_PHRASES.find((candidate) => this.matches(candidate.words));
+    if (verb) {
+      this.position += verb.words.length;
+      const first = this.parseExpression(0, [...stops, ...verb.connectors.map((connector) => connector[0])]);
+      const connector = verb.connectors.find((candidate) => this.matches(candidate));
+      if (!connector) {
+        throw new ParseError(`Expected "${verb.connectors[0].join(' ')}" after "${verb.words.join(' ')}"`);
+      }
+      this.position += connector.length;
+      const second = this.parseExpression(0, stops);
+      if (verb.change) return applyChange(verb.operator, first, second);
+      return verb.reversed ? binary(verb.operator, second, first) : binary(verb.operator, first, second);
+    }
+
+    const choice = CHOICES.find((candidate) => this.matches(candidate.words));
+    if (choice) {
+      this.position += choice.words.length;
+      if (this.matches(['of'])) this.position++;
+      // Commas are dropped, so "5, 2 or 9" reads as options side by side
+      const options = [this.parseExpression(0, [...stops, ...CHOICE_SEPARATORS])];
+      while (CHOICE_SEPARATORS.some((separator) => this.matches([separator])) || this.startsOperand()) {
+        if (!this.startsOperand()) this.position++;
+        options.push(this.parseExpression(0, [...stops, ...CHOICE_SEPARATORS]));
+      }
+      if (options.length < 2) {
+        throw new ParseError(`Expected options after "${choice.words.join(' ')}"`);
+      }
+      return choose(choice.name, options);
+    }
+
+    const formula = FORMULA_PHRASES.find((candidate) => this.matches(candidate.words));
+    if (formula) {
+      this.position += formula.words.length;
+      const operands: Expression[] = [];
+      formula.connectors.forEach((connectors) => {
+        operands.push(this.parseExpression(0, [...stops, ...connectors.map((connector) => connector[0])]));
+        const connector = connectors.find((candidate) => this.matches(candidate));
+        if (!connector) {
+          throw new ParseError(`Expected "${connectors[0].join(' ')}" after "${formula.words.join(' ')}"`);
+        }
+        this.position += connector.length;
+      });
+      operands.push(this.parseExpression(0, stops));
+      const unit = formula.units?.find((candidate) => this.matches([candidate]));
+      this.position += unit ? 1 : 0;
+      return formula.build(...operands);
+    }
+
+    throw new ParseError(`Unexpected "${token}"`);
+  }
+
+  // One step after "then": a verb ("multiply by 2", "square it") or an
+  // operator ("times 2") applied to `previous`
+  private parseFollowUp(previous: Expression): Expression {
+    const followUp = FOLLOW_UPS.find((candidate) => this.matches(candidate.words));
+    if (followUp) {
+      this.position += followUp.words.length;
+      this.skipReference();
+
+      if (followUp.connectors) {
+        const connector = followUp.connectors.find((candidate) => this.matches(candidate));
+        if (!connector) {
+          throw new ParseError(`Expected "${followUp.connectors[0].join(' ')}" after "${followUp.words.join(' ')}"`);
+        }
+        this.position += connector.length;
+      }
+
+      const operand = followUp.operand === undefined ? this.parseExpression(0, []) : num(followUp.operand);
+      // "then add 4 to it", "then subtract 2 from that"
+      if (this.matches(['to']) || this.matches(['from'])) {
+        this.position++;
+        this.skipReference();
+      }
+      return binary(followUp.operator, previous, operand);
+    }
+
+    const infix = INFIX_OPERATORS.find((candidate) => this.matches(candidate.words));
+    if (infix) {
+      this.position += infix.words.length;
+      return binary(infix.operator, previous, this.parseExpression(0, []));
+    }
+
+    throw new ParseError(`Unexpected "${this.tokens[this.position] ?? 'end of query'}" after "then"`);
+  }
+
+  private skipReference(): void {
+    const reference = REFERENCES.find((candidate) => this.matches(candidate));
+    if (reference) {
+      this.position += reference.length;
+    }
+  }
+
+  private startsOperand(offset = 0): boolean {
+    const token = this.tokens[this.position + offset];
+    return (
+      isNumber(token) ||
+      token === '(' ||
+      token === '-' ||
+      token === 'minus' ||
+      token === 'negative' ||
+      [
+        ...PREFIX_FUNCTIONS,
+        ...PREFIX_POWERS,
+        ...PREFIX_MULTIPLES,
+        ...VERB_PHRASES,
+        ...FORMULA_PHRASES,
+        ...CHOICES,
+        ...UNKNOWNS,
+      ].some((candidate) => this.matches(candidate.words, offset))
+    );
+  }
+
+  // "a number", "twice a number"
+  private startsUnknown(offset: number): boolean {
+    const multiple = PREFIX_MULTIPLES.find((candidate) => this.matches(candidate.words, offset));
+    const start = offset + (multiple?.words.length ?? 0);
+    return UNKNOWNS.some((candidate) => this.matches(candidate.words, start));
+  }
+
+  // "18% tip on 42": "tip" also starts a phrase, but after "%" it applies the percentage
+  private startsPercentApplication(offset: number): boolean {
+    return PERCENT_APPLICATIONS.some((candidate) => this.matches(candidate.words, offset));
+  }
+
+  private matches(words: string[], offset = 0): boolean {
+    return words.every((word, index) => this.tokens[this.position + offset + index] === word);
+  }
+
+  private expect(words: string[]): void {
+    if (!this.matches(words)) {
+      throw new ParseError(`Expected "${words.join(' ')}"`);
+    }
+    this.position += words.length;
+  }
+}
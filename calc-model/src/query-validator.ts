@@ -0,0 +1,90 @@
+import { ExpressionSyntaxError, parseArithmetic } from './expression-evaluator';
+import { ENGLISH, localeVocabulary } from './locale';
+import { PreprocessStages, TextPreprocessor, TrainingExample } from './preprocessor';
+import { LEAD_IN_WORDS, QueryParser } from './query-parser';
+import { UnitConverter } from './units';
+
+// Flags queries a model should not answer: text with no math in it, words
+// neither the grammar nor a locale pack knows, and numbers larger than any
+// the model was trained on, where its answers are guesses.
+
+// 'unparsed' covers known words in an order the grammar does not read;
+// 'unsolvable' an unknown with no equation to solve it ("what number") or an
+// equation the solver cannot handle, raised by combinePrediction
+export type ValidationIssueKind = 'not-math' | 'unknown-words' | 'unparsed' | 'out-of-range' | 'unsolvable';
+
+export interface ValidationIssue {
+  kind: ValidationIssueKind;
+  message: string;
+  words?: string[]; // 'not-math' and 'unknown-words': the words nothing understood
+  numbers?: number[]; // 'out-of-range': the numbers beyond the limit
+}
+
+// Words the grammar reads or the English pack strips or substitutes
+const KNOWN_WORDS = new Set([...localeVocabulary(ENGLISH), ...QueryParser.vocabulary(), ...LEAD_IN_WORDS]);
+
+export class QueryValidator {
+  // Largest number in the examples' queries; predictions on numbers beyond
+  // it are not trusted to the network
+  static operandLimit(examples: TrainingExample[]): number {
+    return examples.reduce(
+      (limit, example) => Math.max(limit, ...this.numbers(TextPreprocessor.normalize(example.input))),
+      0
+    );
+  }
+
+  // Numbers in normalized query text, leaving out constants such as the 100
+  // in a percent change formula
+  static numbers(text: string): number[] {
+    return (text.match(/\d+(?:\.\d+)?/g) ?? []).map(Number);
+  }
+
+  // Empty when the expression is arithmetic and within `operandLimit`; no
+  // limit skips the range check
+  static validate(stages: PreprocessStages, operandLimit?: number): ValidationIssue[] {
+    // Unit conversions are exact; the network plays no part in them
+    if (UnitConverter.parse(stages.expression)) return [];
+
+    const issues: ValidationIssue[] = [];
+    const numbers = this.numbers(stages.normalized);
+
+    // The grammar skips words before the first number, so a query it
+    // parses can still be about something else: "call me at 5"
+    const arithmetic = this.isArithmetic(stages.expression);
+    const unknown = this.unknownWords(stages.normalized);
+    if (!arithmetic && numbers.length === 0) {
+      issues.push({ kind: 'not-math', message: 'This does not look like a calculation', words: unknown });
+    } else if (unknown.length > 0) {
+      issues.push({ kind: 'unknown-words', message: `Unknown words: ${unknown.join(', ')}`, words: unknown });
+    } else if (!arithmetic) {
+      issues.push({ kind: 'unparsed', message: 'The query could not be read as a calculation' });
+    }
+
+    const outOfRange = operandLimit === undefined ? [] : numbers.filter((value) => value > operandLimit);
+    if (outOfRange.length > 0) {
+      issues.push({
+        kind: 'out-of-range',
+        message: `${outOfRange.join(', ')} ${outOfRange.length === 1 ? 'is' : 'are'} beyond the trained range (up to ${operandLimit})`,
+        numbers: outOfRange,
+      });
+    }
+    return issues;
+  }
+
+  // Math errors such as division by zero still count: the query is
+  // arithmetic, it just has no value
+  private static isArithmetic(expression: string): boolean {
+    try {
+      parseArithmetic(expression);
+      return true;
+    } catch (error) {
+      if (error instanceof ExpressionSyntaxError) return false;
+      throw error;
+    }
+  }
+
+  private static unknownWords(text: string): string[] {
+    const words = text.match(/[a-z]+/g) ?? [];
+    return [...new Set(words.filter((word) => !KNOWN_WORDS.has(word)))];
+  }
+}
@@ -0,0 +1,110 @@
+import { CalculatorModel } from './calculator-model';
+import { getArchitectureFlag, getDatasetFlags, getFlag, getNumberFlag, logDatasetSummary } from './cli';
+import { CORRECTIONS_PATH, loadCorrections } from './corrections';
+import { mergeDatasets } from './dataset-loader';
+import { OperationMetrics, scoreExamples, summarize } from './evaluation';
+import { TrainingExample } from './preprocessor';
+
+// A handful of corrections would barely move weights trained on a thousand
+// examples, so each one is trained on this many times by default
+const DEFAULT_CORRECTION_WEIGHT = 5;
+
+interface Scores {
+  corrections: OperationMetrics;
+  dataset: OperationMetrics;
+}
+
+function score(model: CalculatorModel, corrections: TrainingExample[], dataset: TrainingExample[]): Scores {
+  return {
+    corrections: summarize('corrections', scoreExamples(model, corrections)),
+    dataset: summarize('dataset', scoreExamples(model, dataset)),
+  };
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+// Only the network's answers: exact evaluation still answers most queries
+// whatever the weights, and corrections are never consulted at predict time
+function logComparison(before: Scores, after: Scores): void {
+  const rows: [string, (scores: Scores) => number][] = [
+    [`corrections (${before.corrections.count})`, (scores) => scores.corrections.networkExactMatch],
+    [`dataset (${before.dataset.count})`, (scores) => scores.dataset.networkExactMatch],
+  ];
+
+  console.log(['network exact match'.padEnd(20), 'before'.padStart(8), 'after'.padStart(8), 'change'.padStart(8)].join(' '));
+  rows.forEach(([name, read]) => {
+    const change = (read(after) - read(before)) * 100;
+    console.log(
+      [
+        name.padEnd(20),
+        percent(read(before)).padStart(8),
+        percent(read(after)).padStart(8),
+        `${change >= 0 ? '+' : ''}${change.toFixed(1)}`.padStart(8),
+      ].join(' ')
+    );
+  });
+}
+
+async function main() {
+  console.log('🔁 AI Calculator - Retrain on Corrections');
+  console.log('=========================================');
+
+  const args = process.argv.slice(2);
+  const architecture = getArchitectureFlag(args);
+  const version = getFlag(args, 'version') ?? 'latest';
+  const iterations = getNumberFlag(args, 'iterations');
+  const weight = getNumberFlag(args, 'weight') ?? DEFAULT_CORRECTION_WEIGHT;
+  if (!Number.isInteger(weight) || weight < 1) {
+    throw new Error(`--weight must be a whole number of at least 1, got ${weight}`);
+  }
+
+  const corrections = loadCorrections();
+  if (corrections.length === 0) {
+    console.log(`📭 No corrections in ${CORRECTIONS_PATH}`);
+    console.log('💡 Mark wrong answers in the REPL (pnpm run predict) with ":wrong <answer>" first');
+    return;
+  }
+  console.log(`📝 ${corrections.length} corrections from ${CORRECTIONS_PATH}`);
+
+  const model = new CalculatorModel({ architecture });
+  if (!model.loadModel(version)) {
+    const modelFlag = architecture === 'feedforward' ? '' : ` --model ${architecture}`;
+    console.log(`❌ No trained model found for version "${version}"!`);
+    console.log(`📚 Please train the model first by running: pnpm run train${modelFlag}`);
+    process.exit(1);
+  }
+  console.log(`✅ Fine-tuning ${model.architecture} model ${model.version?.id ?? 'from the legacy model file'}`);
+
+  // Corrections come first so they win over the dataset's answer for the
+  // same query
+  const dataset = getDatasetFlags(args);
+  const merged = mergeDatasets([
+    { name: 'corrections', examples: corrections },
+    { name: dataset.name, examples: dataset.examples },
+  ]);
+  logDatasetSummary({ name: `corrections + ${dataset.name}`, ...merged });
+  const before = score(model, corrections, dataset.examples);
+
+  const manifest = await model.train(merged.examples, {
+    resume: true,
+    iterations,
+    corrections,
+    correctionWeight: weight,
+  });
+  if (!manifest) {
+    console.error('❌ Retraining failed: the fine-tuned model could not be saved');
+    process.exit(1);
+  }
+
+  const after = score(model, corrections, dataset.examples);
+  console.log('\n📊 Before and after fine-tuning');
+  logComparison(before, after);
+  console.log(`\n📁 Fine-tuned model saved as version ${manifest.id}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Retraining failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,104 @@
+import * as brain from 'brain.js';
+import { TextPreprocessor, TrainingExample } from './preprocessor';
+import {
+  CalculatorNetwork,
+  ModelArchitecture,
+  NetworkConfig,
+  NetworkRun,
+  NetworkTrainingOptions,
+  NetworkTrainingResult,
+} from './calculator-network';
+
+export type SequenceArchitecture = 'lstm' | 'gru';
+
+// Model file fields written by the LSTM and GRU networks
+export interface SavedSequence {
+  network: brain.INeuralNetworkJSON;
+}
+
+// brain.js's typings leave out the character table recurrent networks read
+// and write with
+interface RecurrentDataFormatter {
+  dataFormatter?: { indexTable: { [character: string]: number } };
+}
+
+// Recurrent epochs are far slower than feed-forward ones. brain.js LSTM and
+// GRU cells always squash with sigmoid gates and tanh, so `activation` only
+// records that and cannot be changed.
+export const SEQUENCE_DEFAULTS: NetworkConfig = { hiddenLayers: [20], activation: 'tanh', learningRate: 0.01, iterations: 200 };
+
+export function isSequenceArchitecture(architecture: ModelArchitecture): architecture is SequenceArchitecture {
+  return architecture === 'lstm' || architecture === 'gru';
+}
+
+// Reads the whole preprocessed query one character at a time and writes the
+// answer back out as text, so neither side has a fixed length
+export class SequenceNetwork implements CalculatorNetwork {
+  readonly config: NetworkConfig;
+  private network: brain.recurrent.RNN;
+
+  constructor(readonly architecture: SequenceArchitecture, config: Partial<NetworkConfig> = {}) {
+    this.config = { ...SEQUENCE_DEFAULTS, ...config, activation: SEQUENCE_DEFAULTS.activation };
+    this.network = this.createNetwork();
+  }
+
+  private createNetwork(): brain.recurrent.RNN {
+    const options = { hiddenLayers: this.config.hiddenLayers };
+    return this.architecture === 'gru' ? new brain.recurrent.GRU(options) : new brain.recurrent.LSTM(options);
+  }
+
+  train(examples: TrainingExample[], options: NetworkTrainingOptions = {}): NetworkTrainingResult {
+    // A resumed network keeps its character table, so answers it cannot
+    // spell are dropped and unseen query characters are skipped
+    const usable = options.resume
+      ? examples.filter((example) => this.knownCharacters(String(example.output)) === String(example.output))
+      : examples;
+    const sequenceData = usable.map((example) => {
+      const input = TextPreprocessor.preprocess(example.input);
+      return { input: options.resume ? this.knownCharacters(input) : input, output: String(example.output) };
+    });
+
+    if (options.preview ?? true) {
+      console.log(`Training ${this.architecture.toUpperCase()} with ${sequenceData.length} examples...`);
+      console.log('Sample training data:');
+      sequenceData.slice(0, 3).forEach((data, index) => {
+        console.log(`${index + 1}. Input: "${usable[index].input}" -> Sequence: "${data.input}" -> Output: "${data.output}"`);
+      });
+    }
+
+    return this.network.train(sequenceData, {
+      iterations: options.iterations ?? this.config.iterations,
+      errorThresh: 0.005,
+      log: options.log ?? true,
+      logPeriod: 10,
+      learningRate: this.config.learningRate,
+    });
+  }
+
+  run(input: string): NetworkRun {
+    const output = this.network.run(this.knownCharacters(TextPreprocessor.preprocess(input)));
+    const value = /^-?\d+(\.\d+)?$/.test(output) ? parseFloat(output) : NaN;
+
+    // Generated text either reads as a number or it doesn't
+    return { value, sharpness: Number.isNaN(value) ? 0 : 1, output };
+  }
+
+  // The recurrent data formatter throws on characters it never saw in training
+  private knownCharacters(text: string): string {
+    const { dataFormatter } = this.network as brain.recurrent.RNN & RecurrentDataFormatter;
+    const indexTable = dataFormatter?.indexTable ?? {};
+    return text
+      .split('')
+      .filter((character) => indexTable[character] !== undefined)
+      .join('');
+  }
+
+  toJSON(): SavedSequence {
+    return { network: this.network.toJSON() };
+  }
+
+  fromJSON(json: SavedSequence): void {
+    this.network = this.createNetwork();
+    this.network.fromJSON(json.network);
+  }
+}
@@ -0,0 +1,181 @@
+import * as http from 'http';
+import { CalculatorModel } from './calculator-model';
+import { PredictionResult } from './prediction';
+import { getArchitectureFlag, getFlag, getNumberFlag } from './cli';
+import { isLocaleOption, LOCALE_CODES, LocaleOption } from './locale';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_BATCH_SIZE = 100;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function predictTimed(model: CalculatorModel, query: string, locale: LocaleOption) {
+  const startedAt = process.hrtime.bigint();
+  const prediction: PredictionResult = model.predict(query, { locale });
+  return {
+    query: prediction.input,
+    locale: prediction.locale,
+    result: prediction.value,
+    unit: prediction.unit,
+    answer: prediction.answer,
+    expression: prediction.expression,
+    strategy: prediction.strategy,
+    confidence: prediction.confidence,
+    neural: prediction.neural,
+    symbolic: prediction.symbolic,
+    intent: prediction.intent,
+    error: prediction.error,
+    issues: prediction.issues,
+    timingMs: Number(process.hrtime.bigint() - startedAt) / 1e6,
+  };
+}
+
+function readQuery(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, 'Each query must be a non-empty string');
+  }
+  return value.trim();
+}
+
+function readLocale(value: unknown): LocaleOption {
+  if (value === undefined) return 'auto';
+  if (typeof value !== 'string' || !isLocaleOption(value)) {
+    throw new HttpError(400, `"locale" must be auto or one of ${LOCALE_CODES.join(', ')}`);
+  }
+  return value;
+}
+
+// The request body as a JSON object; an empty body is {}
+function readJsonBody(request: http.IncomingMessage): Promise<{ [field: string]: unknown }> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // The rest is drained unread; the 413 closes the connection once sent
+        request.removeAllListeners('data');
+        request.resume();
+        reject(new HttpError(413, 'Request body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      if (size > MAX_BODY_BYTES) return;
+
+      let body: unknown;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+      } catch {
+        reject(new HttpError(400, 'Request body must be valid JSON'));
+        return;
+      }
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        reject(new HttpError(400, 'Request body must be a JSON object'));
+        return;
+      }
+      resolve(body as { [field: string]: unknown });
+    });
+    request.on('error', reject);
+  });
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: object): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+// Serves predictions from a model that is already loaded; the model is shared
+// by every request
+export function createServer(model: CalculatorModel): http.Server {
+  const loadedAt = new Date().toISOString();
+
+  const routes: { [route: string]: (request: http.IncomingMessage) => Promise<object> } = {
+    'POST /predict': async (request) => {
+      const body = await readJsonBody(request);
+      return predictTimed(model, readQuery(body.query), readLocale(body.locale));
+    },
+
+    'POST /predict/batch': async (request) => {
+      const body = await readJsonBody(request);
+      if (!Array.isArray(body.queries) || body.queries.length === 0) {
+        throw new HttpError(400, '"queries" must be a non-empty array of strings');
+      }
+      if (body.queries.length > MAX_BATCH_SIZE) {
+        throw new HttpError(400, `At most ${MAX_BATCH_SIZE} queries per batch`);
+      }
+
+      const queries = body.queries.map(readQuery);
+      const locale = readLocale(body.locale);
+      const batchStartedAt = process.hrtime.bigint();
+      const results = queries.map((query: string) => predictTimed(model, query, locale));
+      return { count: results.length, results, timingMs: Number(process.hrtime.bigint() - batchStartedAt) / 1e6 };
+    },
+
+    'GET /model': async () => ({
+      architecture: model.architecture,
+      version: model.version,
+      loadedAt,
+    }),
+  };
+
+  return http.createServer(async (request, response) => {
+    const pathname = new URL(request.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '') || '/';
+    const route = routes[`${request.method} ${pathname}`];
+
+    if (!route) {
+      const knownPath = Object.keys(routes).some((key) => key.endsWith(` ${pathname}`));
+      sendJson(response, knownPath ? 405 : 404, {
+        success: false,
+        error: knownPath ? `Method ${request.method} not allowed` : `Not found: ${pathname}`,
+      });
+      return;
+    }
+
+    try {
+      sendJson(response, 200, { success: true, ...(await route(request)) });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (error.status === 413) response.setHeader('Connection', 'close');
+        sendJson(response, error.status, { success: false, error: error.message });
+        return;
+      }
+      console.error(`Error in ${request.method} ${pathname}:`, error);
+      sendJson(response, 500, { success: false, error: 'Internal server error' });
+    }
+  });
+}
+
+async function main() {
+  console.log('🌐 AI Calculator - Prediction Server');
+  console.log('====================================');
+
+  const args = process.argv.slice(2);
+  const architecture = getArchitectureFlag(args);
+  const version = getFlag(args, 'version') ?? 'latest';
+  const port = getNumberFlag(args, 'port') ?? Number(process.env.PORT ?? 3000);
+
+  const model = new CalculatorModel({ architecture });
+  if (!model.loadModel(version)) {
+    console.log(`❌ No trained model found for version "${version}"!`);
+    console.log('📚 Please train the model first by running: pnpm run train');
+    process.exit(1);
+  }
+
+  createServer(model).listen(port, () => {
+    console.log(`✅ Serving ${model.architecture} (${model.version?.id ?? 'legacy model file'}) on http://localhost:${port}`);
+    console.log('   POST /predict        { "query": "what is 8 times 9" }');
+    console.log('   POST /predict/batch  { "queries": ["2+2", "8 square"] }');
+    console.log('   GET  /model');
+  });
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
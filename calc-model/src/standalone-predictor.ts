@@ -0,0 +1,39 @@
+import { CalculatorNetwork, ModelArchitecture, SavedModel } from './calculator-network';
+import { FeedForwardNetwork } from './feedforward-network';
+import { IntentNetwork } from './intent-network';
+import { PredictionResult, PredictOptions, predictWith } from './prediction';
+
+// Entry point of exported standalone predictors: a saved model goes in, a
+// predict function that behaves like CalculatorModel.predict comes out
+
+// Recurrent networks run on brain.js's matrix library, which is not bundled
+export const STANDALONE_ARCHITECTURES: ModelArchitecture[] = ['feedforward', 'intent'];
+
+export interface StandalonePredictor {
+  architecture: ModelArchitecture;
+  version: string | null; // Registry id of the exported model
+  predict(input: string, options?: PredictOptions): PredictionResult;
+}
+
+export function createPredictor(modelData: SavedModel, version: string | null): StandalonePredictor {
+  const architecture: ModelArchitecture = modelData.architecture ?? 'feedforward';
+
+  let network: CalculatorNetwork;
+  switch (architecture) {
+    case 'feedforward':
+      network = new FeedForwardNetwork();
+      break;
+    case 'intent':
+      network = new IntentNetwork();
+      break;
+    default:
+      throw new Error(`${architecture} models cannot be exported; use one of ${STANDALONE_ARCHITECTURES.join(', ')}`);
+  }
+  network.fromJSON(modelData);
+
+  return {
+    architecture,
+    version,
+    predict: (input, options = {}) => predictWith(network, input, options, modelData.operandLimit),
+  };
+}
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import { OPERATIONS } from './intent';
+import { LOCALE_CODES } from './locale';
+import { StandalonePredictor } from './standalone-predictor';
+
+// Builds a single dependency-free JavaScript module from the compiled
+// sources: standalone-predictor.js and every module it requires, wrapped in
+// a small CommonJS loader together with the model's weights. brain.js is
+// swapped for brain-runtime.js, its forward pass; any other package or Node
+// built-in in the graph is an error, so the module runs in a browser too.
+
+const ENTRY = 'standalone-predictor';
+const SUBSTITUTES: { [request: string]: string } = { 'brain.js': 'brain-runtime' };
+
+// Compiled modules reachable from the entry, keyed by id ("locales/en"),
+// with their require calls rewritten to those ids
+function collectModules(root: string): Map<string, string> {
+  const modules = new Map<string, string>();
+
+  const visit = (id: string, chain: string[]): void => {
+    if (modules.has(id)) return;
+    const file = path.join(root, `${id}.js`);
+    if (!fs.existsSync(file)) {
+      throw new Error(`${file} not found; run "pnpm run build" first`);
+    }
+
+    modules.set(id, ''); // Claimed before its requires, which may lead back here
+    const source = fs
+      .readFileSync(file, 'utf8')
+      .replace(/\n\/\/# sourceMappingURL=.*$/, '')
+      .replace(/require\("([^"]+)"\)/g, (_, request: string) => {
+        const target = request.startsWith('.') ? path.posix.join(path.posix.dirname(id), request) : SUBSTITUTES[request];
+        if (!target) {
+          throw new Error(`${[...chain, id].join(' → ')} requires "${request}", which a standalone predictor cannot include`);
+        }
+        visit(target, [...chain, id]);
+        return `require(${JSON.stringify(target)})`;
+      });
+    modules.set(id, source);
+  };
+
+  visit(ENTRY, []);
+  return modules;
+}
+
+// Usable as a CommonJS module, an ES module import in Node, or a <script>
+// that defines the global `AICalculator`. Module sources are copied
+// unindented, since reindenting would change multi-line template strings.
+export function buildStandalone(modelData: object, version: string | null, root: string = __dirname): string {
+  const definitions = [...collectModules(root)].map(
+    ([id, source]) => `${JSON.stringify(id)}: function (module, exports, require) {\n${source.trim()}\n}`
+  );
+
+  return `// Generated by \`pnpm run export\` from ${version ?? 'the legacy model file'}. Do not edit.
+// A natural language calculator with no dependencies: predict("what is 8 times 9")
+(function (root, factory) {
+  if (typeof module === 'object' && module.exports) {
+    module.exports = factory();
+  } else {
+    root.AICalculator = factory();
+  }
+})(typeof globalThis !== 'undefined' ? globalThis : this, function () {
+  var definitions = {
+  ${definitions.join(',\n  ')}
+  };
+
+  var cache = {};
+  function require(id) {
+    if (!cache[id]) {
+      var module = (cache[id] = { exports: {} });
+      definitions[id](module, module.exports, require);
+    }
+    return cache[id].exports;
+  }
+
+  var model = ${JSON.stringify(modelData)};
+  return require(${JSON.stringify(ENTRY)}).createPredictor(model, ${JSON.stringify(version)});
+});
+`;
+}
+
+// Type declarations for the generated module, written next to it
+export function buildDeclarations(): string {
+  const union = (values: string[]) => values.map((value) => `'${value}'`).join(' | ');
+  return `// Generated by \`pnpm run export\`. Do not edit.
+export type LocaleCode = ${union(LOCALE_CODES)};
+
+export interface Intent {
+  operation: ${union(OPERATIONS)};
+  operands: number[];
+}
+
+export interface ValidationIssue {
+  kind: 'not-math' | 'unknown-words' | 'unparsed' | 'out-of-range' | 'unsolvable';
+  message: string;
+  words?: string[];
+  numbers?: number[];
+}
+
+export type PredictionAnswer =
+  | { type: 'boolean'; value: boolean }
+  | { type: 'choice'; value: number; option: string; options: string[] }
+  | { type: 'equation'; variable: string; solutions: 'one' | 'none' | 'infinite'; value: number | null };
+
+export interface PredictionResult {
+  input: string;
+  locale: LocaleCode;
+  expression: string;
+  value: number;
+  unit?: string;
+  neural: number;
+  symbolic: number | null;
+  confidence: number;
+  strategy: 'neural' | 'intent' | 'symbolic' | 'agreement' | 'unsupported';
+  intent?: Intent;
+  error?: string;
+  issues?: ValidationIssue[];
+  answer?: PredictionAnswer;
+}
+
+export interface PredictOptions {
+  locale?: 'auto' | LocaleCode;
+}
+
+export declare const architecture: 'feedforward' | 'intent';
+export declare const version: string | null;
+export declare function predict(input: string, options?: PredictOptions): PredictionResult;
+`;
+}
+
+// Runs a generated module in this process without giving it `require`, so
+// anything it failed to bundle shows up as an error
+export function loadStandalone(source: string): StandalonePredictor {
+  const module = { exports: {} as StandalonePredictor };
+  vm.runInThisContext(`(function (module) {\n${source}\n})`)(module);
+  return module.exports;
+}
@@ -0,0 +1,244 @@
+import { Expression } from './expression';
+import { EvaluationError, parseArithmetic } from './expression-evaluator';
+
+// Ways of turning a preprocessed expression ("8 * 9") into the fixed-length
+// vector the feed-forward network reads. The config, including any fitted
+// vocabulary, is saved with the model so predictions encode the same way.
+
+export type TokenizerConfig =
+  | { type: 'chars'; maxLength: number }
+  | { type: 'one-hot-chars'; maxLength: number }
+  | { type: 'vocabulary'; maxTokens: number; maxVocabulary: number; vocabulary: string[] }
+  | NumericTokenizerConfig;
+
+// `comparisons` adds a flag per comparator and for max/min; models saved
+// before comparisons were encoded have no such inputs
+interface NumericTokenizerConfig {
+  type: 'numeric';
+  maxOperands: number;
+  scale: number;
+  comparisons?: boolean;
+}
+
+export type TokenizerType = TokenizerConfig['type'];
+
+export const TOKENIZER_TYPES: TokenizerType[] = ['chars', 'one-hot-chars', 'vocabulary', 'numeric'];
+
+export interface Tokenizer {
+  readonly config: TokenizerConfig;
+  readonly size: number; // Length of every encoded vector
+  encode(expression: string): number[];
+}
+
+// Models saved before tokenizers were recorded all used scaled characters
+export const DEFAULT_TOKENIZER: TokenizerConfig = { type: 'chars', maxLength: 15 };
+
+export function defaultTokenizerConfig(type: TokenizerType): TokenizerConfig {
+  switch (type) {
+    case 'chars':
+      return DEFAULT_TOKENIZER;
+    case 'one-hot-chars':
+      return { type, maxLength: 15 };
+    case 'vocabulary':
+      return { type, maxTokens: 7, maxVocabulary: 64, vocabulary: [] };
+    case 'numeric':
+      return { type, maxOperands: 3, scale: 10000, comparisons: true };
+  }
+}
+
+// One float per character: digits 0.1-1.0, operators 0.91-0.95, space 0.01,
+// anything else 0.02 and padding 0
+class CharTokenizer implements Tokenizer {
+  private static readonly OPERATORS: { [char: string]: number } = {
+    '+': 0.91,
+    '-': 0.92,
+    '*': 0.93,
+    '/': 0.94,
+    '^': 0.95,
+  };
+
+  constructor(readonly config: { type: 'chars'; maxLength: number }) {}
+
+  get size(): number {
+    return this.config.maxLength;
+  }
+
+  encode(expression: string): number[] {
+    const tokens: number[] = [];
+    for (let i = 0; i < this.config.maxLength; i++) {
+      const char = expression[i];
+      if (char === undefined) {
+        tokens.push(0);
+      } else if (char >= '0' && char <= '9') {
+        tokens.push((parseInt(char, 10) + 1) / 10);
+      } else if (CharTokenizer.OPERATORS[char] !== undefined) {
+        tokens.push(CharTokenizer.OPERATORS[char]);
+      } else {
+        tokens.push(char === ' ' ? 0.01 : 0.02);
+      }
+    }
+    return tokens;
+  }
+}
+
+// One neuron per character class per position, so "9" and "^" no longer sit
+// 0.05 apart on the same input
+class OneHotCharTokenizer implements Tokenizer {
+  // The last class collects letters and anything else
+  private static readonly ALPHABET = '0123456789.+-*/^%!() ';
+
+  constructor(readonly config: { type: 'one-hot-chars'; maxLength: number }) {}
+
+  get size(): number {
+    return this.config.maxLength * (OneHotCharTokenizer.ALPHABET.length + 1);
+  }
+
+  encode(expression: string): number[] {
+    const width = OneHotCharTokenizer.ALPHABET.length + 1;
+    const tokens = new Array<number>(this.size).fill(0);
+    for (let i = 0; i < Math.min(expression.length, this.config.maxLength); i++) {
+      const index = OneHotCharTokenizer.ALPHABET.indexOf(expression[i]);
+      tokens[i * width + (index >= 0 ? index : width - 1)] = 1;
+    }
+    return tokens;
+  }
+}
+
+// Numbers, words and symbols as whole tokens, one-hot over the vocabulary
+// seen in training; tokens outside it share an "unknown" neuron
+class VocabularyTokenizer implements Tokenizer {
+  constructor(readonly config: { type: 'vocabulary'; maxTokens: number; maxVocabulary: number; vocabulary: string[] }) {}
+
+  static split(expression: string): string[] {
+    return expression.match(/\d+(?:\.\d+)?|[a-z]+|[^\s\w]/g) ?? [];
+  }
+
+  get size(): number {
+    return this.config.maxTokens * (this.config.vocabulary.length + 1);
+  }
+
+  encode(expression: string): number[] {
+    const width = this.config.vocabulary.length + 1;
+    const tokens = new Array<number>(this.size).fill(0);
+    VocabularyTokenizer.split(expression)
+      .slice(0, this.config.maxTokens)
+      .forEach((token, position) => {
+        const index = this.config.vocabulary.indexOf(token);
+        tokens[position * width + (index >= 0 ? index : width - 1)] = 1;
+      });
+    return tokens;
+  }
+}
+
+// Operand values and which operations and comparisons appear, read from the
+// parsed expression. Each operand gets a presence flag, a sign and a
+// log-scaled magnitude; text that does not parse sets only the last neuron.
+class NumericTokenizer implements Tokenizer {
+  private static readonly OPERATIONS = ['+', '-', '*', '/', '%', '^', 'sqrt', 'factorial', 'percent'];
+  private static readonly COMPARISONS = ['=', '!=', '<', '<=', '>', '>=', 'max', 'min'];
+
+  constructor(readonly config: NumericTokenizerConfig) {}
+
+  private get flags(): string[] {
+    return this.config.comparisons
+      ? [...NumericTokenizer.OPERATIONS, ...NumericTokenizer.COMPARISONS]
+      : NumericTokenizer.OPERATIONS;
+  }
+
+  get size(): number {
+    return this.config.maxOperands * 3 + this.flags.length + 1;
+  }
+
+  encode(expression: string): number[] {
+    const tokens = new Array<number>(this.size).fill(0);
+
+    let tree: Expression;
+    try {
+      tree = parseArithmetic(expression);
+    } catch (error) {
+      if (!(error instanceof EvaluationError)) throw error;
+      tokens[this.size - 1] = 1;
+      return tokens;
+    }
+
+    const operands: number[] = [];
+    const operations = new Set<string>();
+    const visit = (node: Expression): void => {
+      switch (node.type) {
+        case 'number':
+          operands.push(node.value);
+          break;
+        case 'negate':
+          if (node.operand.type === 'number') {
+            operands.push(-node.operand.value);
+          } else {
+            operations.add('-');
+            visit(node.operand);
+          }
+          break;
+        case 'function':
+          operations.add(node.name);
+          visit(node.operand);
+          break;
+        case 'binary':
+          operations.add(node.operator);
+          visit(node.left);
+          visit(node.right);
+          break;
+        case 'comparison':
+          operations.add(node.comparator);
+          visit(node.left);
+          visit(node.right);
+          break;
+        case 'choice':
+          operations.add(node.name);
+          node.options.forEach(visit);
+          break;
+      }
+    };
+    visit(tree);
+
+    const logScale = Math.log10(this.config.scale + 1);
+    operands.slice(0, this.config.maxOperands).forEach((value, index) => {
+      tokens[index * 3] = 1;
+      tokens[index * 3 + 1] = value < 0 ? 1 : 0;
+      tokens[index * 3 + 2] = Math.min(1, Math.log10(Math.abs(value) + 1) / logScale);
+    });
+    this.flags.forEach((operation, index) => {
+      tokens[this.config.maxOperands * 3 + index] = operations.has(operation) ? 1 : 0;
+    });
+    return tokens;
+  }
+}
+
+export function createTokenizer(config: TokenizerConfig): Tokenizer {
+  switch (config.type) {
+    case 'chars':
+      return new CharTokenizer(config);
+    case 'one-hot-chars':
+      return new OneHotCharTokenizer(config);
+    case 'vocabulary':
+      return new VocabularyTokenizer(config);
+    case 'numeric':
+      return new NumericTokenizer(config);
+  }
+}
+
+// Builds a tokenizer for the training expressions. Only the vocabulary
+// tokenizer learns anything: its most frequent `maxVocabulary` tokens.
+export function fitTokenizer(config: TokenizerConfig, expressions: string[]): Tokenizer {
+  if (config.type !== 'vocabulary') {
+    return createTokenizer(config);
+  }
+
+  const counts = new Map<string, number>();
+  expressions.forEach((expression) => {
+    VocabularyTokenizer.split(expression).forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+  });
+  const vocabulary = [...counts.entries()]
+    .sort(([leftToken, left], [rightToken, right]) => right - left || leftToken.localeCompare(rightToken))
+    .slice(0, config.maxVocabulary)
+    .map(([token]) => token);
+
+  return createTokenizer({ ...config, vocabulary });
+}
@@ -1,16 +1,85 @@
-import { CalculatorModel } from './calculator-model';
+import { CalculatorModel, TrainingOptions } from './calculator-model';
+import { defaultCheckpointPath } from './checkpoint';
+import {
+  getArchitectureFlag,
+  getDatasetFlags,
+  getFlag,
+  getNetworkConfigFlags,
+  getNumberFlag,
+  getTokenizerFlag,
+  logDatasetSummary,
+} from './cli';
+import { splitDataset } from './evaluation';
 
 async function main() {
   console.log('🧠 AI Calculator - Training Mode');
   console.log('================================');
 
-  const model = new CalculatorModel();
+  const args = process.argv.slice(2);
+  const architecture = getArchitectureFlag(args);
+  const config = getNetworkConfigFlags(args, architecture);
+  const tokenizer = getTokenizerFlag(args);
+  const model = new CalculatorModel({ architecture, config, tokenizer });
+  const dataset = getDatasetFlags(args);
+  console.log(`🏗️  Architecture: ${architecture}`);
+  if (tokenizer) {
+    console.log(`🔤 Tokenizer: ${tokenizer.type}`);
+  }
+  if (Object.keys(config).length > 0) {
+    console.log(`⚙️  Config overrides: ${JSON.stringify(config)}`);
+  }
+  logDatasetSummary(dataset);
+
+  // `--resume <version>` continues from saved weights instead of random ones
+  const resumeVersion = getFlag(args, 'resume');
+  if (resumeVersion !== undefined) {
+    if (!model.loadModel(resumeVersion)) {
+      console.error(`❌ No trained model found for version "${resumeVersion}" to resume from`);
+      process.exit(1);
+    }
+    console.log(`♻️  Resuming from ${model.version?.id ?? 'the legacy model file'}`);
+  }
+
+  let examples = dataset.examples;
+  const seed = getNumberFlag(args, 'seed') ?? 42;
+  const options: TrainingOptions = {
+    resume: resumeVersion !== undefined,
+    patience: getNumberFlag(args, 'patience'),
+    checkEvery: getNumberFlag(args, 'check-every'),
+    checkpointPath: getFlag(args, 'checkpoint'),
+  };
+
+  // `--test-ratio` (default 0.2, 0 for none) keeps part of the dataset out of
+  // training entirely; the network's accuracy on it is what `--model best` ranks by
+  const testRatio = getNumberFlag(args, 'test-ratio') ?? 0.2;
+  if (testRatio !== 0) {
+    const split = splitDataset(examples, testRatio, seed);
+    examples = split.train;
+    options.test = split.test;
+    console.log(`📏 Test: ${split.test.length} held-out examples, scored after training`);
+  }
+
+  // `--validation-ratio` holds out part of the dataset for early stopping,
+  // with checkpoints written as training goes
+  const validationRatio = getNumberFlag(args, 'validation-ratio');
+  if (validationRatio !== undefined && validationRatio !== 0) {
+    const split = splitDataset(examples, validationRatio, seed);
+    examples = split.train;
+    options.validation = split.test;
+    // A resumed model keeps its saved architecture, whatever --model says
+    options.checkpointPath = options.checkpointPath ?? defaultCheckpointPath(model.architecture);
+    console.log(`🧪 Validation: ${split.test.length} held-out examples, checkpoints in ${options.checkpointPath}`);
+  }
 
   try {
-    await model.train();
+    const manifest = await model.train(examples, options);
+    if (!manifest) {
+      throw new Error('the trained model could not be saved');
+    }
     console.log('\n✅ Training completed successfully!');
-    console.log('📁 Model saved to model.json');
-    console.log('\n🚀 You can now run predictions using: pnpm run predict');
+    console.log(`📁 Model saved as version ${manifest.id}`);
+    const modelFlag = model.architecture === 'feedforward' ? '' : ` --model ${model.architecture}`;
+    console.log(`\n🚀 You can now run predictions using: pnpm run predict${modelFlag}`);
   } catch (error) {
     console.error('❌ Training failed:', error);
     process.exit(1);
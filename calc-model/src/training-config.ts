@@ -0,0 +1,30 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModelArchitecture, NetworkConfig } from './calculator-network';
+
+// Per-architecture defaults picked by `pnpm run tune`, layered over the
+// defaults built into each network
+export const TRAINING_CONFIG_PATH = path.join(__dirname, '..', 'training-config.json');
+
+type TrainingConfigFile = { [architecture in ModelArchitecture]?: Partial<NetworkConfig> };
+
+function readConfigFile(configPath: string): TrainingConfigFile {
+  return fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, 'utf8')) : {};
+}
+
+export function loadTrainingConfig(
+  architecture: ModelArchitecture,
+  configPath: string = TRAINING_CONFIG_PATH
+): Partial<NetworkConfig> {
+  return readConfigFile(configPath)[architecture] ?? {};
+}
+
+export function saveTrainingConfig(
+  architecture: ModelArchitecture,
+  config: NetworkConfig,
+  configPath: string = TRAINING_CONFIG_PATH
+): void {
+  const file = readConfigFile(configPath);
+  file[architecture] = config;
+  fs.writeFileSync(configPath, JSON.stringify(file, null, 2) + '\n');
+}
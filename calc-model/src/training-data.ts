@@ -531,4 +531,77 @@ export const trainingData = [
   { input: 'ten divided by two', output: 5 },
   { input: 'twelve divided by three', output: 4 },
   { input: 'fifteen divided by five', output: 3 },
+
+  // Multi-step and parenthesized expressions
+  { input: 'add 2 to 4 then multiply by 3', output: 18 },
+  { input: 'add 1 to 6 then multiply by 2', output: 14 },
+  { input: 'subtract 3 from 11 then divide by 2', output: 4 },
+  { input: 'take 5 from 12 then multiply by 3', output: 21 },
+  { input: 'multiply 3 by 4 then add 5', output: 17 },
+  { input: 'multiply 2 by 6 then subtract 4', output: 8 },
+  { input: 'divide 20 by 4 then add 3', output: 8 },
+  { input: '4 plus 5 then times 2', output: 18 },
+  { input: '9 minus 3 then divided by 2', output: 3 },
+  { input: '2 times 3 then square it', output: 36 },
+  { input: 'add 4 and 6 then halve it', output: 5 },
+  { input: 'three plus one then double it', output: 8 },
+  { input: 'the square of 3 plus 4', output: 13 },
+  { input: 'the square of 5 minus 10', output: 15 },
+  { input: 'the square of 2 times 3', output: 12 },
+  { input: '4 plus the square of 3', output: 13 },
+  { input: 'the cube of 2 plus 1', output: 9 },
+  { input: '(2+3)*4', output: 20 },
+  { input: '(6-2)*5', output: 20 },
+  { input: '2*(3+4)', output: 14 },
+  { input: '(8+4)/3', output: 4 },
+  { input: '10-(2+3)', output: 5 },
+  { input: '(1+2)^2', output: 9 },
+  { input: '2+3*4', output: 14 },
+  { input: '10-2*3', output: 4 },
+  { input: '8/2+6', output: 10 },
+  { input: '2*3^2', output: 18 },
+  { input: 'what is (4 plus 5) times 2', output: 18 },
+
+  // Percentages and finance
+  { input: '10% of 20', output: 2 },
+  { input: '25% of 12', output: 3 },
+  { input: 'what is 25 percent of 16', output: 4 },
+  { input: 'what is 20% of 15', output: 3 },
+  { input: '25 percent off 20', output: 15 },
+  { input: 'what is 10% off 20', output: 18 },
+  { input: '20% discount on 25', output: 20 },
+  { input: 'tip 20% on 15', output: 3 },
+  { input: '20% tip on 10', output: 2 },
+  { input: 'increase 20 by 10%', output: 22 },
+  { input: 'decrease 20 by 25%', output: 15 },
+  { input: '10 increased by 20%', output: 12 },
+  { input: 'percent change from 10 to 15', output: 50 },
+  { input: 'percentage decrease from 20 to 15', output: 25 },
+  { input: 'what percent is 5 of 20', output: 25 },
+  { input: 'what percentage of 25 is 5', output: 20 },
+  { input: 'simple interest on 20 at 5% for 2 years', output: 2 },
+  { input: 'interest on 10 at 10% for 3 years', output: 3 },
+  { input: 'compound interest on 20 at 10% for 2 years', output: 4.2 },
+
+  // Comparisons: 1 when true, 0 when false; choices give the value picked
+  { input: 'is 7 greater than 5', output: 1 },
+  { input: 'is 3 greater than 9', output: 0 },
+  { input: 'is 4 less than 6', output: 1 },
+  { input: 'is 12 smaller than 8', output: 0 },
+  { input: 'is 9 bigger than 2 times 4', output: 1 },
+  { input: 'is 5 at least 5', output: 1 },
+  { input: 'does 6 plus 2 equal 8', output: 1 },
+  { input: 'is 3 times 4 equal to 15', output: 0 },
+  { input: '7 > 5', output: 1 },
+  { input: '4 >= 9', output: 0 },
+  { input: 'is 12 divisible by 4', output: 1 },
+  { input: 'is 10 divisible by 3', output: 0 },
+  { input: 'is 15 a multiple of 5', output: 1 },
+  { input: 'is 8 even', output: 1 },
+  { input: 'is 9 even', output: 0 },
+  { input: 'is 7 odd', output: 1 },
+  { input: 'which is bigger, 3 squared or 10', output: 10 },
+  { input: 'which is smaller, 2 cubed or 9', output: 8 },
+  { input: 'which is larger, 14 or 11', output: 14 },
+  { input: 'the smaller of 6 and 4', output: 4 },
 ];
@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getArchitectureFlag, getDatasetFlags, getFlag, getNumberFlag, logDatasetSummary } from './cli';
+import { saveTrainingConfig, TRAINING_CONFIG_PATH } from './training-config';
+import { formatLeaderboard, gridCandidates, randomCandidates, searchSpaceFor, tune } from './tuning';
+
+async function main() {
+  console.log('🎛️  AI Calculator - Hyperparameter Search');
+  console.log('========================================');
+
+  const args = process.argv.slice(2);
+  const architecture = getArchitectureFlag(args);
+  const search = getFlag(args, 'search') ?? 'random';
+  const seed = getNumberFlag(args, 'seed') ?? 42;
+  if (search !== 'grid' && search !== 'random') {
+    throw new Error(`--search must be grid or random, got "${search}"`);
+  }
+
+  const trials = getNumberFlag(args, 'trials') ?? 8;
+  if (!Number.isInteger(trials) || trials < 1) {
+    throw new Error(`--trials must be a whole number of at least 1, got ${trials}`);
+  }
+
+  const space = searchSpaceFor(architecture);
+  const candidates = search === 'grid' ? gridCandidates(space) : randomCandidates(space, trials, seed);
+  const dataset = getDatasetFlags(args);
+  logDatasetSummary(dataset);
+  console.log(`🏗️  Architecture: ${architecture} | ${search} search | ${candidates.length} trials`);
+
+  const results = tune(dataset.examples, {
+    architecture,
+    candidates,
+    seed,
+    validationRatio: getNumberFlag(args, 'validation-ratio') ?? 0.2,
+  });
+
+  console.log('\n🏆 Leaderboard');
+  console.log(formatLeaderboard(results));
+
+  const createdAt = new Date().toISOString();
+  const outPath = path.resolve(
+    getFlag(args, 'out') ?? path.join(__dirname, '..', 'reports', `tune-${architecture}-${createdAt.replace(/[:.]/g, '-')}.json`)
+  );
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, JSON.stringify({ createdAt, architecture, search, seed, results }, null, 2));
+  console.log(`\n📁 Leaderboard saved to ${outPath}`);
+
+  saveTrainingConfig(architecture, results[0].config);
+  console.log(`⭐ Best configuration saved to ${TRAINING_CONFIG_PATH} as the ${architecture} default for pnpm run train`);
+}
+
+main().catch((error) => {
+  console.error('❌ Tuning failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,137 @@
+import { CalculatorModel } from './calculator-model';
+import { ModelArchitecture, NetworkConfig, NetworkTrainingResult } from './calculator-network';
+import { EvaluatedExample, isExact, scoreExamples, splitDataset } from './evaluation';
+import { TrainingExample } from './preprocessor';
+import { createRandom, shuffle } from './random';
+import { isSequenceArchitecture, SEQUENCE_DEFAULTS } from './sequence-network';
+
+export interface SearchSpace {
+  hiddenLayers: number[][];
+  activation: string[];
+  learningRate: number[];
+  iterations: number[];
+}
+
+export interface TuningOptions {
+  architecture: ModelArchitecture;
+  candidates: NetworkConfig[];
+  seed: number;
+  validationRatio: number;
+}
+
+export interface TuningResult {
+  rank: number;
+  config: NetworkConfig;
+  validationExactMatch: number; // 0-1, network output alone
+  validationMeanAbsoluteError: number | null;
+  trainError: number;
+  durationMs: number;
+}
+
+export const DEFAULT_SEARCH_SPACE: SearchSpace = {
+  hiddenLayers: [[10], [15, 10], [20, 15], [30, 20]],
+  activation: ['sigmoid', 'tanh', 'leaky-relu'],
+  learningRate: [0.1, 0.3, 0.5],
+  iterations: [1000, 3000],
+};
+
+// Recurrent cells have a fixed activation, need a far smaller learning rate
+// and take much longer per iteration than the feed-forward networks
+export const SEQUENCE_SEARCH_SPACE: SearchSpace = {
+  hiddenLayers: [[10], [20], [40]],
+  activation: [SEQUENCE_DEFAULTS.activation],
+  learningRate: [0.005, 0.01, 0.05],
+  iterations: [100, 200, 400],
+};
+
+export function searchSpaceFor(architecture: ModelArchitecture): SearchSpace {
+  return isSequenceArchitecture(architecture) ? SEQUENCE_SEARCH_SPACE : DEFAULT_SEARCH_SPACE;
+}
+
+export function gridCandidates(space: SearchSpace): NetworkConfig[] {
+  const candidates: NetworkConfig[] = [];
+  space.hiddenLayers.forEach((hiddenLayers) =>
+    space.activation.forEach((activation) =>
+      space.learningRate.forEach((learningRate) =>
+        space.iterations.forEach((iterations) => candidates.push({ hiddenLayers, activation, learningRate, iterations }))
+      )
+    )
+  );
+  return candidates;
+}
+
+// A seeded sample of the grid without repeats
+export function randomCandidates(space: SearchSpace, trials: number, seed: number): NetworkConfig[] {
+  return shuffle(gridCandidates(space), createRandom(seed)).slice(0, trials);
+}
+
+// Trains one model per candidate on the same split and ranks them by
+// validation accuracy of the network alone (symbolic evaluation would hide the
+// differences), breaking ties on mean absolute error. A configuration the
+// network rejects is skipped rather than ending the search.
+export function tune(examples: TrainingExample[], options: TuningOptions): TuningResult[] {
+  const split = splitDataset(examples, options.validationRatio, options.seed);
+  const results: Omit<TuningResult, 'rank'>[] = [];
+
+  options.candidates.forEach((config, index) => {
+    console.log(`\n🔧 Trial ${index + 1}/${options.candidates.length}: ${JSON.stringify(config)}`);
+    const startedAt = Date.now();
+    const model = new CalculatorModel({ architecture: options.architecture, config });
+    let trainResult: NetworkTrainingResult;
+    let scored: EvaluatedExample[];
+    try {
+      trainResult = model.fit(split.train, false);
+      scored = scoreExamples(model, split.test);
+    } catch (error) {
+      console.log(`   ⚠️  Skipped: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    const networkErrors = scored
+      .filter((example) => Number.isFinite(example.network))
+      .map((example) => Math.abs(example.network - example.expected));
+    const result = {
+      config,
+      validationExactMatch: scored.filter((example) => isExact(example.network, example.expected)).length / scored.length,
+      validationMeanAbsoluteError: networkErrors.length
+        ? networkErrors.reduce((sum, error) => sum + error, 0) / networkErrors.length
+        : null,
+      trainError: trainResult.error,
+      durationMs: Date.now() - startedAt,
+    };
+    console.log(`   validation exact match ${(result.validationExactMatch * 100).toFixed(1)}%, train error ${trainResult.error.toFixed(4)}`);
+    results.push(result);
+  });
+
+  if (results.length === 0) {
+    throw new Error(`All ${options.candidates.length} trials failed`);
+  }
+  return results
+    .sort(
+      (left, right) =>
+        right.validationExactMatch - left.validationExactMatch ||
+        (left.validationMeanAbsoluteError ?? Infinity) - (right.validationMeanAbsoluteError ?? Infinity)
+    )
+    .map((result, index) => ({ rank: index + 1, ...result }));
+}
+
+export function formatLeaderboard(results: TuningResult[]): string {
+  const lines = [
+    ['rank'.padStart(4), 'hidden'.padEnd(8), 'activation'.padEnd(11), 'lr'.padStart(5), 'iters'.padStart(6), 'exact'.padStart(7), 'MAE'.padStart(8), 'time'.padStart(7)].join(' '),
+  ];
+  results.forEach((result) => {
+    lines.push(
+      [
+        String(result.rank).padStart(4),
+        result.config.hiddenLayers.join(',').padEnd(8),
+        result.config.activation.padEnd(11),
+        String(result.config.learningRate).padStart(5),
+        String(result.config.iterations).padStart(6),
+        `${(result.validationExactMatch * 100).toFixed(1)}%`.padStart(7),
+        (result.validationMeanAbsoluteError === null ? 'n/a' : result.validationMeanAbsoluteError.toFixed(2)).padStart(8),
+        `${(result.durationMs / 1000).toFixed(1)}s`.padStart(7),
+      ].join(' ')
+    );
+  });
+  return lines.join('\n');
+}
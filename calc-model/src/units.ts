@@ -0,0 +1,109 @@
+import { EvaluationError } from './expression-evaluator';
+
+// Units of length, weight, temperature and time, and exact conversions
+// between units of the same dimension. Queries such as "5 km in miles" are
+// preprocessed to a canonical conversion, "5 km to mi", which MathEvaluator
+// evaluates with UnitConverter.
+
+export type Dimension = 'length' | 'weight' | 'temperature' | 'time';
+
+// A value in this unit is `value * scale + offset` in the dimension's base
+// unit (metres, kilograms, degrees Celsius, seconds). Only temperatures have
+// an offset.
+export interface Unit {
+  symbol: string; // Written in canonical conversions and shown with answers
+  dimension: Dimension;
+  names: string[]; // Lowercase words and abbreviations that refer to the unit
+  scale: number;
+  offset?: number;
+}
+
+export interface Conversion {
+  value: number;
+  from: Unit;
+  to: Unit;
+}
+
+// Converting between dimensions, e.g. kilometres to hours
+export class IncompatibleUnitsError extends EvaluationError {
+  constructor(from: Unit, to: Unit) {
+    super(`Cannot convert ${from.symbol} (${from.dimension}) to ${to.symbol} (${to.dimension})`);
+  }
+}
+
+export const UNITS: Unit[] = [
+  { symbol: 'mm', dimension: 'length', names: ['mm', 'millimeter', 'millimeters', 'millimetre', 'millimetres'], scale: 0.001 },
+  { symbol: 'cm', dimension: 'length', names: ['cm', 'centimeter', 'centimeters', 'centimetre', 'centimetres'], scale: 0.01 },
+  { symbol: 'm', dimension: 'length', names: ['m', 'meter', 'meters', 'metre', 'metres'], scale: 1 },
+  { symbol: 'km', dimension: 'length', names: ['km', 'kilometer', 'kilometers', 'kilometre', 'kilometres'], scale: 1000 },
+  { symbol: 'in', dimension: 'length', names: ['inch', 'inches'], scale: 0.0254 },
+  { symbol: 'ft', dimension: 'length', names: ['ft', 'foot', 'feet'], scale: 0.3048 },
+  { symbol: 'yd', dimension: 'length', names: ['yd', 'yard', 'yards'], scale: 0.9144 },
+  { symbol: 'mi', dimension: 'length', names: ['mi', 'mile', 'miles'], scale: 1609.344 },
+
+  { symbol: 'mg', dimension: 'weight', names: ['mg', 'milligram', 'milligrams'], scale: 0.000001 },
+  { symbol: 'g', dimension: 'weight', names: ['g', 'gram', 'grams'], scale: 0.001 },
+  { symbol: 'kg', dimension: 'weight', names: ['kg', 'kilo', 'kilos', 'kilogram', 'kilograms'], scale: 1 },
+  { symbol: 't', dimension: 'weight', names: ['tonne', 'tonnes', 'metric ton', 'metric tons'], scale: 1000 },
+  { symbol: 'oz', dimension: 'weight', names: ['oz', 'ounce', 'ounces'], scale: 0.028349523125 },
+  { symbol: 'lb', dimension: 'weight', names: ['lb', 'lbs', 'pound', 'pounds'], scale: 0.45359237 },
+  { symbol: 'st', dimension: 'weight', names: ['stone', 'stones'], scale: 6.35029318 },
+
+  { symbol: '°C', dimension: 'temperature', names: ['°c', 'c', 'celsius', 'centigrade'], scale: 1 },
+  { symbol: '°F', dimension: 'temperature', names: ['°f', 'f', 'fahrenheit'], scale: 5 / 9, offset: (-32 * 5) / 9 },
+  { symbol: 'K', dimension: 'temperature', names: ['k', 'kelvin', 'kelvins'], scale: 1, offset: -273.15 },
+
+  { symbol: 'ms', dimension: 'time', names: ['ms', 'millisecond', 'milliseconds'], scale: 0.001 },
+  { symbol: 's', dimension: 'time', names: ['s', 'sec', 'secs', 'second', 'seconds'], scale: 1 },
+  { symbol: 'min', dimension: 'time', names: ['min', 'mins', 'minute', 'minutes'], scale: 60 },
+  { symbol: 'h', dimension: 'time', names: ['h', 'hr', 'hrs', 'hour', 'hours'], scale: 3600 },
+  { symbol: 'd', dimension: 'time', names: ['day', 'days'], scale: 86400 },
+  { symbol: 'wk', dimension: 'time', names: ['wk', 'wks', 'week', 'weeks'], scale: 604800 },
+  { symbol: 'yr', dimension: 'time', names: ['yr', 'yrs', 'year', 'years'], scale: 31557600 }, // Julian year, 365.25 days
+];
+
+// "<number> <unit> in|to|into <unit>", optionally after "convert"; "a"/"an"
+// count as 1 ("an hour in minutes")
+const CONVERSION_QUERY = /^(?:convert )?(-?\d+(?:\.\d+)?|an?) ?(.+?) (?:in|to|into) (.+)$/;
+const CANONICAL_CONVERSION = /^(-?\d+(?:\.\d+)?) (\S+) to (\S+)$/;
+
+export class UnitConverter {
+  // The unit a word or phrase names: "miles", "degrees celsius", "°f"
+  static find(name: string): Unit | null {
+    const unit = name.replace(/^degrees? /, '');
+    return UNITS.find((candidate) => candidate.names.includes(unit)) ?? null;
+  }
+
+  // Reads a conversion from normalized query text; null when the text is not
+  // one or either unit is unknown
+  static match(text: string): Conversion | null {
+    const match = CONVERSION_QUERY.exec(text);
+    if (!match) return null;
+    const from = this.find(match[2]);
+    const to = this.find(match[3]);
+    if (!from || !to) return null;
+    return { value: /^an?$/.test(match[1]) ? 1 : parseFloat(match[1]), from, to };
+  }
+
+  // "5 km to mi", the form preprocess() emits
+  static format(conversion: Conversion): string {
+    return `${conversion.value} ${conversion.from.symbol} to ${conversion.to.symbol}`;
+  }
+
+  // Reads back what format() wrote; null for any other expression
+  static parse(expression: string): Conversion | null {
+    const match = CANONICAL_CONVERSION.exec(expression);
+    const from = match && UNITS.find((unit) => unit.symbol === match[2]);
+    const to = match && UNITS.find((unit) => unit.symbol === match[3]);
+    return match && from && to ? { value: parseFloat(match[1]), from, to } : null;
+  }
+
+  // Throws IncompatibleUnitsError when the units measure different things
+  static convert({ value, from, to }: Conversion): number {
+    if (from.dimension !== to.dimension) {
+      throw new IncompatibleUnitsError(from, to);
+    }
+    const base = value * from.scale + (from.offset ?? 0);
+    return (base - (to.offset ?? 0)) / to.scale;
+  }
+}